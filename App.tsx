@@ -1,42 +1,206 @@
-import React, { useState, useCallback, useRef } from 'react';
-import type { SubtitleBlock } from './types';
-import { translateTexts } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { BatchFile, ConformanceChange, ConformanceIssue, ConformanceProfile, GlossaryEntry, ModelPrice, QualityIssue, SubtitleDiagnostic, SubtitleDocument, SubtitleFix, SubtitleFormat, ProviderSettings as ProviderSettingsValue, SchedulerSettings as SchedulerSettingsValue, SdhMode, StyleProfile, TranslationJob, TranslationOptions, UsageRecord } from './types';
+import { translateTexts } from './services/translationService';
+import { createProvider, DEFAULT_PROVIDER_SETTINGS } from './services/providers';
+import { buildJobDocument, createTranslationJob, DEFAULT_SCHEDULER_SETTINGS, estimateJobUsage, getJobProgress, getJobUsage, isJobComplete, runTranslationJob } from './services/translationJob';
+import { createRateLimiter } from './services/rateLimiter';
+import { isAbortError } from './services/errors';
+import { deleteJob, getJobId, loadJob, saveJob } from './services/jobStore';
+import { buildBatchZip, readBatchInput, runBatchTranslation } from './services/batchTranslation';
+import { runConformancePass } from './services/conformance';
+import { runBackTranslationPass } from './services/qualityCheck';
+import type { BackTranslationFailure } from './services/qualityCheck';
+import { lookupDocumentMemory, rememberJob, rememberTranslations } from './services/translationMemory';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useApiKey } from './hooks/useApiKey';
+import { detectFormat, getOutputExtension, getOutputFilename, parseSubtitlesWithDiagnostics, stringifySubtitles, SUBTITLE_FORMATS, SUPPORTED_EXTENSIONS } from './utils/formats';
+import { applyFixes, getApplicableFixes } from './utils/validation';
+import { sha256Hex } from './utils/hash';
+import { downloadFile } from './utils/download';
+import { BILINGUAL_EXPORTS, buildBilingualExport } from './utils/formats/bilingual';
+import type { BilingualExportId } from './utils/formats/bilingual';
+import { isZipFile } from './utils/zip';
+import { checkGlossary, normalizeGlossary } from './utils/glossary';
+import { checkConformance, DEFAULT_CONFORMANCE_PROFILE } from './utils/conformance';
+import { checkQuality, getQualityScore, stringifyQualityReport } from './utils/quality';
+import type { BackTranslation } from './utils/quality';
+import { DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE, getTargetLanguage } from './utils/languages';
+import { DEFAULT_STYLE_PROFILE, DEFAULT_STYLE_PROFILES } from './utils/styleProfiles';
+import { DEFAULT_MODEL_PRICES, stringifyUsageLog } from './utils/usage';
+import { applySdhMode } from './utils/sdh';
 import Icon from './components/Icon';
+import ProviderSettings from './components/ProviderSettings';
+import LanguageSettings from './components/LanguageSettings';
+import ValidationReport from './components/ValidationReport';
+import ReviewEditor from './components/ReviewEditor';
+import JobStatus from './components/JobStatus';
+import SchedulerSettings from './components/SchedulerSettings';
+import GlossaryPanel from './components/GlossaryPanel';
+import BatchQueue from './components/BatchQueue';
+import ConformancePanel from './components/ConformancePanel';
+import TranslationMemoryPanel from './components/TranslationMemoryPanel';
+import TimingPanel from './components/TimingPanel';
+import QualityPanel from './components/QualityPanel';
+import BilingualExportPanel from './components/BilingualExportPanel';
+import StyleProfilePanel from './components/StyleProfilePanel';
+import UsagePanel from './components/UsagePanel';
+import SdhPanel from './components/SdhPanel';
 
-// Heuristic for chunking: ~1000 tokens is roughly 3750 characters.
-// We use a smaller, safer value to stay well within API limits and prevent network errors.
-const CHARACTER_LIMIT_PER_CHUNK = 3750;
+// Number of source lines on each side sent as context when retranslating a single cue.
+const RETRANSLATE_CONTEXT_LINES = 3;
 
 const App: React.FC = () => {
     const [inputFile, setInputFile] = useState<File | null>(null);
+    const [sourceDocument, setSourceDocument] = useState<SubtitleDocument | null>(null);
+    const [diagnostics, setDiagnostics] = useState<SubtitleDiagnostic[]>([]);
+    const [selectedFixes, setSelectedFixes] = useState<SubtitleFix[]>([]);
+    const [sourceHash, setSourceHash] = useState<string | null>(null);
+    const [job, setJob] = useState<TranslationJob | null>(null);
+    const [activeChunks, setActiveChunks] = useState<Set<number>>(new Set());
     const [isTranslating, setIsTranslating] = useState<boolean>(false);
+    // Set when cancel is clicked, until the running translation has stopped.
+    const [isCancelling, setIsCancelling] = useState<boolean>(false);
     const [translationProgress, setTranslationProgress] = useState<string>('');
     const [translationProgressPercent, setTranslationProgressPercent] = useState<number>(0);
-    const [translatedContent, setTranslatedContent] = useState<string | null>(null);
+    const [translatedDocument, setTranslatedDocument] = useState<SubtitleDocument | null>(null);
+    // The document that was actually sent for translation (after fixes), cue for cue with translatedDocument.
+    const [reviewSourceDocument, setReviewSourceDocument] = useState<SubtitleDocument | null>(null);
+    // Options the reviewed job was translated with, so retranslations, condensing and quality checks
+    // keep its languages and style even if the settings have changed since.
+    const [reviewOptions, setReviewOptions] = useState<TranslationOptions | null>(null);
+    const [editedPositions, setEditedPositions] = useState<Set<number>>(new Set());
+    // Cues retranslated by the model and not yet accepted or edited by the user.
+    const [retranslatedPositions, setRetranslatedPositions] = useState<Set<number>>(new Set());
+    const [conformanceChanges, setConformanceChanges] = useState<ConformanceChange[]>([]);
+    const [isConforming, setIsConforming] = useState<boolean>(false);
+    const [backTranslations, setBackTranslations] = useState<Map<number, BackTranslation>>(new Map());
+    const [backTranslationFailures, setBackTranslationFailures] = useState<BackTranslationFailure[]>([]);
+    const [isCheckingQuality, setIsCheckingQuality] = useState<boolean>(false);
+    const [qualityProgress, setQualityProgress] = useState<string>('');
+    const [outputFormat, setOutputFormat] = useState<SubtitleFormat>('srt');
+    // Several files (or a ZIP) were selected: they are translated as a batch instead of one by one.
+    const [batchFiles, setBatchFiles] = useState<BatchFile[]>([]);
+    const [batchJobs, setBatchJobs] = useState<Record<string, TranslationJob>>({});
+    const [batchErrors, setBatchErrors] = useState<Record<string, string>>({});
+    const [activeBatchFileId, setActiveBatchFileId] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [isDragging, setIsDragging] = useState<boolean>(false);
+    // Bumped after the translation memory is written, so its panel reloads.
+    const [memoryVersion, setMemoryVersion] = useState<number>(0);
+    // Chosen per file; a saved job keeps the mode it was started with.
+    const [sdhMode, setSdhMode] = useState<SdhMode>('translate');
+    // Every model request since the page was opened; not cleared when another file is loaded.
+    const [usageLog, setUsageLog] = useState<UsageRecord[]>([]);
+    // The API key is stored apart from the other provider settings; see useApiKey.
+    const [storedProviderSettings, setStoredProviderSettings] = usePersistentState<ProviderSettingsValue>('provider', DEFAULT_PROVIDER_SETTINGS);
+    const [rememberApiKey, setRememberApiKey] = usePersistentState<boolean>('rememberApiKey', false);
+    // A key saved with the settings by an earlier version is taken over, then cleared from them.
+    const [apiKey, setApiKey] = useApiKey(rememberApiKey, storedProviderSettings.apiKey);
+    useEffect(() => {
+        if (storedProviderSettings.apiKey) setStoredProviderSettings(settings => ({ ...settings, apiKey: '' }));
+    }, [storedProviderSettings.apiKey]);
+    const providerSettings = useMemo(() => ({ ...storedProviderSettings, apiKey }), [storedProviderSettings, apiKey]);
+    const setProviderSettings = (settings: ProviderSettingsValue) => {
+        setStoredProviderSettings({ ...settings, apiKey: '' });
+        setApiKey(settings.apiKey);
+    };
+    const [translationOptions, setTranslationOptions] = usePersistentState<TranslationOptions>('languages', {
+        sourceLanguage: DEFAULT_SOURCE_LANGUAGE,
+        targetLanguage: DEFAULT_TARGET_LANGUAGE,
+    });
+    const targetLanguage = getTargetLanguage(translationOptions.targetLanguage);
+    const [schedulerSettings, setSchedulerSettings] = usePersistentState<SchedulerSettingsValue>('scheduler', DEFAULT_SCHEDULER_SETTINGS);
+    const [glossary, setGlossary] = usePersistentState<GlossaryEntry[]>('glossary', []);
+    const [styleProfiles, setStyleProfiles] = usePersistentState<StyleProfile[]>('styleProfiles', DEFAULT_STYLE_PROFILES);
+    const [styleProfileId, setStyleProfileId] = usePersistentState<string>('styleProfile', DEFAULT_STYLE_PROFILE.id);
+    const selectedStyle = styleProfiles.find(profile => profile.id === styleProfileId) ?? styleProfiles[0] ?? DEFAULT_STYLE_PROFILE;
+    const [conformanceProfile, setConformanceProfile] = usePersistentState<ConformanceProfile>('conformance', DEFAULT_CONFORMANCE_PROFILE);
+    const [modelPrices, setModelPrices] = usePersistentState<ModelPrice[]>('prices', DEFAULT_MODEL_PRICES);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     const resetState = () => {
         setInputFile(null);
+        setSourceDocument(null);
+        setDiagnostics([]);
+        setSelectedFixes([]);
+        setSdhMode('translate');
+        setSourceHash(null);
+        setJob(null);
+        setActiveChunks(new Set());
         setIsTranslating(false);
         setTranslationProgress('');
         setTranslationProgressPercent(0);
-        setTranslatedContent(null);
+        setTranslatedDocument(null);
+        setReviewSourceDocument(null);
+        setReviewOptions(null);
+        setEditedPositions(new Set());
+        setRetranslatedPositions(new Set());
+        setConformanceChanges([]);
+        setBackTranslations(new Map());
+        setBackTranslationFailures([]);
+        setQualityProgress('');
+        setBatchFiles([]);
+        setBatchJobs({});
+        setBatchErrors({});
+        setActiveBatchFileId(null);
         setError(null);
         if (fileInputRef.current) {
             fileInputRef.current.value = '';
         }
     };
 
+    // Files are parsed and validated as soon as they are selected, so problems are
+    // reported before any API quota is spent.
+    const loadFile = async (file: File, format: SubtitleFormat) => {
+        try {
+            const content = await file.text();
+            const { document: parsedDocument, diagnostics: parseDiagnostics } = parseSubtitlesWithDiagnostics(content, format);
+            if (parsedDocument.cues.length === 0) {
+                throw new Error("Não foi possível encontrar blocos de legendas válidos no ficheiro. Por favor, verifique o formato do ficheiro.");
+            }
+            setInputFile(file);
+            setOutputFormat(format);
+            setSourceDocument(parsedDocument);
+            setDiagnostics(parseDiagnostics);
+            setSelectedFixes(getApplicableFixes(parseDiagnostics));
+            setSourceHash(await sha256Hex(content));
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : 'Ocorreu um erro desconhecido.';
+            setError(errorMessage);
+            console.error(e);
+        }
+    };
+
+    const loadBatch = async (files: File[]) => {
+        try {
+            const { files: loadedFiles, skipped } = await readBatchInput(files);
+            if (loadedFiles.length === 0) {
+                throw new Error('Não foram encontradas legendas válidas nos ficheiros selecionados.');
+            }
+            setBatchFiles(loadedFiles);
+            if (skipped.length > 0) {
+                setError(`Foram ignorados ${skipped.length} ficheiros sem legendas válidas: ${skipped.join(', ')}.`);
+            }
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : 'Ocorreu um erro desconhecido.';
+            setError(errorMessage);
+            console.error(e);
+        }
+    };
+
     const handleFileSelect = (files: FileList | null) => {
-        if (files && files.length > 0) {
+        if (files && (files.length > 1 || (files.length === 1 && isZipFile(files[0].name)))) {
+            resetState();
+            loadBatch(Array.from(files));
+        } else if (files && files.length > 0) {
             const file = files[0];
-            if (file.name.toLowerCase().endsWith('.srt')) {
+            const format = detectFormat(file.name);
+            if (format) {
                 resetState();
-                setInputFile(file);
+                loadFile(file, format);
             } else {
-                setError('Tipo de ficheiro inválido. Por favor, selecione um ficheiro .srt.');
+                setError('Tipo de ficheiro inválido. Por favor, selecione um ficheiro .srt, .vtt, .ass, .ssa ou .sbv.');
             }
         }
     };
@@ -60,126 +224,404 @@ const App: React.FC = () => {
         handleFileSelect(e.dataTransfer.files);
     };
 
-    const parseSrt = (srtContent: string): SubtitleBlock[] => {
-        const blocks = srtContent.trim().replace(/\r\n/g, '\n').split('\n\n');
-        return blocks.map(block => {
-            const lines = block.split('\n');
-            if (lines.length < 2) return null; // malformed block
-            const index = lines[0];
-            const time = lines[1];
-            const text = lines.slice(2).join('\n');
-            // Basic validation for SRT format
-            if (!/^\d+$/.test(index) || !time.includes('-->')) return null;
-            return { index, time, text };
-        }).filter((b): b is SubtitleBlock => b !== null && b.text.trim() !== '');
-    };
+    // A previous job for the same file and target language can be resumed or reopened.
+    useEffect(() => {
+        setJob(null);
+        if (!sourceHash) return;
+        let cancelled = false;
+        loadJob(getJobId(sourceHash, translationOptions.targetLanguage))
+            .then(storedJob => { if (!cancelled) setJob(storedJob); })
+            .catch(e => console.warn('Could not load saved translation job:', e));
+        return () => { cancelled = true; };
+    }, [sourceHash, translationOptions.targetLanguage]);
 
-    const stringifySrt = (subtitles: SubtitleBlock[]): string => {
-        return subtitles.map(sub => `${sub.index}\n${sub.time}\n${sub.text}`).join('\n\n') + '\n\n';
-    };
+    useEffect(() => {
+        setBatchJobs({});
+        setBatchErrors({});
+        if (batchFiles.length === 0) return;
+        let cancelled = false;
+        Promise.all(batchFiles.map(file => loadJob(getJobId(file.sourceHash, translationOptions.targetLanguage))))
+            .then(storedJobs => {
+                if (cancelled) return;
+                const jobs: Record<string, TranslationJob> = {};
+                storedJobs.forEach((storedJob, i) => { if (storedJob) jobs[batchFiles[i].id] = storedJob; });
+                setBatchJobs(jobs);
+            })
+            .catch(e => console.warn('Could not load saved translation jobs:', e));
+        return () => { cancelled = true; };
+    }, [batchFiles, translationOptions.targetLanguage]);
 
-    const chunkSubtitles = (subtitles: SubtitleBlock[]): SubtitleBlock[][] => {
-        const chunks: SubtitleBlock[][] = [];
-        let currentChunk: SubtitleBlock[] = [];
-        let currentChunkCharCount = 0;
-
-        for (const subtitle of subtitles) {
-            const subtitleCharCount = subtitle.text.length;
-            if (currentChunk.length > 0 && currentChunkCharCount + subtitleCharCount > CHARACTER_LIMIT_PER_CHUNK) {
-                chunks.push(currentChunk);
-                currentChunk = [];
-                currentChunkCharCount = 0;
-            }
-            currentChunk.push(subtitle);
-            currentChunkCharCount += subtitleCharCount;
+    const persistJob = async (nextJob: TranslationJob) => {
+        setJob(nextJob);
+        try {
+            await saveJob(nextJob);
+        } catch (e) {
+            // Translation still works without persistence (e.g. private browsing).
+            console.warn('Could not save translation job:', e);
         }
+    };
 
-        if (currentChunk.length > 0) {
-            chunks.push(currentChunk);
-        }
+    const recordUsage = (record: UsageRecord) => setUsageLog(log => [...log, record]);
+
+    const remember = (write: Promise<void>) => {
+        write
+            .then(() => setMemoryVersion(version => version + 1))
+            .catch(e => console.warn('Could not update the translation memory:', e));
+    };
 
-        return chunks;
+    const openJobForReview = (reviewJob: TranslationJob) => {
+        setReviewSourceDocument(reviewJob.document);
+        setReviewOptions(reviewJob.options);
+        setTranslatedDocument(buildJobDocument(reviewJob));
+        setEditedPositions(new Set());
+        setRetranslatedPositions(new Set());
+        setConformanceChanges([]);
+        setBackTranslations(new Map());
+        setBackTranslationFailures([]);
+        setQualityProgress('');
     };
-    
-    const getOutputFilename = (originalName: string): string => {
-        const parts = originalName.split('.');
-        if (parts.length > 1 && parts[parts.length - 1].toLowerCase() === 'srt') {
-            parts.splice(parts.length - 1, 0, 'pt');
-            return parts.join('.');
+
+    const handleRestartJob = async () => {
+        if (!job) return;
+        try {
+            await deleteJob(job.id);
+        } catch (e) {
+            console.warn('Could not delete translation job:', e);
         }
-        return `${originalName}.pt.srt`;
-    }
+        setJob(null);
+        setError(null);
+    };
 
-    const handleTranslate = useCallback(async () => {
-        if (!inputFile) return;
+    // Runs every unfinished chunk of the current job (creating it first if needed),
+    // or only the given chunks when retrying individual failures.
+    const handleTranslate = useCallback(async (chunkIndices?: number[]) => {
+        if (!inputFile || !sourceDocument || !sourceHash) return;
 
         setIsTranslating(true);
         setError(null);
-        setTranslationProgress('A ler o ficheiro...');
+        setTranslationProgress('A preparar a tradução...');
         setTranslationProgressPercent(0);
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
 
         try {
             await new Promise(resolve => setTimeout(resolve, 200)); // Short delay for UI update
-            const content = await inputFile.text();
-            setTranslationProgress('A analisar o conteúdo SRT...');
-            setTranslationProgressPercent(5);
-            const subtitles = parseSrt(content);
-            if (subtitles.length === 0) {
-              throw new Error("Não foi possível encontrar blocos de legendas válidos no ficheiro. Por favor, verifique o formato do ficheiro.");
+            const provider = createProvider(providerSettings);
+            let currentJob = job;
+            if (!currentJob) {
+                const fixedDocument = applySdhMode(applyFixes(sourceDocument, selectedFixes), sdhMode);
+                currentJob = createTranslationJob({
+                    id: getJobId(sourceHash, translationOptions.targetLanguage),
+                    fileName: inputFile.name,
+                    sourceHash,
+                    document: fixedDocument,
+                    options: { ...translationOptions, style: selectedStyle, sdh: sdhMode, glossary: normalizeGlossary(glossary) },
+                    limits: provider.capabilities,
+                    memory: await lookupDocumentMemory(fixedDocument, translationOptions.targetLanguage),
+                });
+                await persistJob(currentJob);
             }
 
-            const chunks = chunkSubtitles(subtitles);
-            const translatedSubtitles: SubtitleBlock[] = [];
-
-            for (let i = 0; i < chunks.length; i++) {
-                const progress = Math.round(((i + 1) / chunks.length) * 90) + 5; // Scale progress from 5% to 95%
-                setTranslationProgress(`A traduzir bloco ${i + 1} de ${chunks.length}...`);
-                setTranslationProgressPercent(progress);
-                
-                const chunkToTranslate = chunks[i];
-                const textsToTranslate = chunkToTranslate.map(sub => sub.text);
-                const translatedTexts = await translateTexts(textsToTranslate);
-
-                const translatedChunk = chunkToTranslate.map((sub, index) => ({
-                    ...sub,
-                    text: translatedTexts[index],
-                }));
-                translatedSubtitles.push(...translatedChunk);
+            const reportProgress = (runningJob: TranslationJob) => {
+                const { total, done } = getJobProgress(runningJob);
+                setTranslationProgress(`A traduzir: ${done} de ${total} blocos concluídos...`);
+                setTranslationProgressPercent(total > 0 ? Math.round((done / total) * 95) + 5 : 100);
+            };
+            reportProgress(currentJob);
+
+            const completedJob = await runTranslationJob(currentJob, provider, {
+                chunkIndices,
+                concurrency: schedulerSettings.concurrency,
+                rateLimiter: createRateLimiter(schedulerSettings),
+                signal: abortController.signal,
+                onChunkStart: (chunkIndex) => setActiveChunks(prev => new Set(prev).add(chunkIndex)),
+                onChunkEnd: (chunkIndex) => setActiveChunks(prev => { const next = new Set(prev); next.delete(chunkIndex); return next; }),
+                onUpdate: async (updatedJob) => {
+                    reportProgress(updatedJob);
+                    await persistJob(updatedJob);
+                },
+                onUsage: recordUsage,
+            });
+
+            if (isJobComplete(completedJob)) {
+                remember(rememberJob(completedJob));
+                setTranslationProgress('A finalizar o ficheiro traduzido...');
+                setTranslationProgressPercent(100);
+                openJobForReview(completedJob);
+                setTranslationProgress('Tradução concluída!');
+            }
+        } catch (e) {
+            if (isAbortError(e)) {
+                setError('Tradução cancelada. O progresso foi guardado: pode retomar a tradução ou exportar a parte já traduzida.');
+            } else {
+                const errorMessage = e instanceof Error ? e.message : 'Ocorreu um erro desconhecido.';
+                setError(`${errorMessage} O progresso foi guardado: pode retomar a tradução ou exportar a parte já traduzida.`);
+                console.error(e);
             }
+        } finally {
+            abortControllerRef.current = null;
+            setIsCancelling(false);
+            setActiveChunks(new Set());
+            setIsTranslating(false);
+        }
+    }, [inputFile, sourceDocument, sourceHash, job, selectedFixes, sdhMode, providerSettings, translationOptions, selectedStyle, glossary, schedulerSettings]);
+
+    const handleTranslateBatch = async () => {
+        if (batchFiles.length === 0) return;
+
+        setIsTranslating(true);
+        setError(null);
+        setBatchErrors({});
+        setTranslationProgress('A preparar a tradução...');
+        setTranslationProgressPercent(0);
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
 
-            setTranslationProgress('A finalizar o ficheiro traduzido...');
-            setTranslationProgressPercent(100);
-            const finalSrt = stringifySrt(translatedSubtitles);
-            setTranslatedContent(finalSrt);
-            setTranslationProgress('Tradução concluída!');
+        const jobs = { ...batchJobs };
+        const reportProgress = () => {
+            const totals = batchFiles.reduce((sum, file) => {
+                const { total, done } = jobs[file.id] ? getJobProgress(jobs[file.id]) : { total: 0, done: 0 };
+                return { total: sum.total + total, done: sum.done + done };
+            }, { total: 0, done: 0 });
+            const finishedFiles = batchFiles.filter(file => jobs[file.id] && isJobComplete(jobs[file.id])).length;
+            setTranslationProgress(`A traduzir: ${finishedFiles} de ${batchFiles.length} ficheiros concluídos...`);
+            setTranslationProgressPercent(totals.total > 0 ? Math.round((totals.done / totals.total) * 100) : 0);
+        };
+
+        try {
+            await runBatchTranslation(batchFiles, jobs, createProvider(providerSettings), {
+                options: { ...translationOptions, style: selectedStyle, sdh: sdhMode, glossary: normalizeGlossary(glossary) },
+                concurrency: schedulerSettings.concurrency,
+                rateLimiter: createRateLimiter(schedulerSettings),
+                signal: abortController.signal,
+                onFileStart: (fileId) => setActiveBatchFileId(fileId),
+                onUsage: recordUsage,
+                onFileEnd: (fileId, fileError) => {
+                    setActiveBatchFileId(null);
+                    if (fileError && !isAbortError(fileError)) {
+                        const errorMessage = fileError instanceof Error ? fileError.message : 'Ocorreu um erro desconhecido.';
+                        setBatchErrors(prev => ({ ...prev, [fileId]: errorMessage }));
+                        console.error(fileError);
+                    }
+                },
+                onUpdate: async (fileId, updatedJob) => {
+                    jobs[fileId] = updatedJob;
+                    if (isJobComplete(updatedJob)) remember(rememberJob(updatedJob));
+                    setBatchJobs(prev => ({ ...prev, [fileId]: updatedJob }));
+                    reportProgress();
+                    try {
+                        await saveJob(updatedJob);
+                    } catch (e) {
+                        console.warn('Could not save translation job:', e);
+                    }
+                },
+            });
+            if (batchFiles.some(file => !jobs[file.id] || !isJobComplete(jobs[file.id]))) {
+                setError('Alguns ficheiros não foram traduzidos por completo. O progresso foi guardado: pode retomar o lote ou descarregar a parte já traduzida.');
+            }
+        } catch (e) {
+            if (isAbortError(e)) {
+                setError('Tradução cancelada. O progresso foi guardado: pode retomar o lote ou descarregar a parte já traduzida.');
+            } else {
+                const errorMessage = e instanceof Error ? e.message : 'Ocorreu um erro desconhecido.';
+                setError(errorMessage);
+                console.error(e);
+            }
+        } finally {
+            abortControllerRef.current = null;
+            setIsCancelling(false);
+            setActiveBatchFileId(null);
+            setActiveChunks(new Set());
+            setIsTranslating(false);
+        }
+    };
+
+    const handleRemoveBatchFile = (fileId: string) => {
+        setBatchFiles(prev => prev.filter(file => file.id !== fileId));
+    };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+        setIsCancelling(true);
+        setTranslationProgress('A cancelar...');
+    };
+
+    const setTranslation = (position: number, text: string) => {
+        setTranslatedDocument(prev => prev && {
+            ...prev,
+            cues: prev.cues.map((cue, i) => i === position ? { ...cue, text } : cue),
+        });
+    };
+
+    // Marks a cue as reviewed by the user; reviewed cues go to the translation memory on download.
+    const handleAcceptTranslation = (position: number) => {
+        setEditedPositions(prev => new Set(prev).add(position));
+        setRetranslatedPositions(prev => { const next = new Set(prev); next.delete(position); return next; });
+    };
+
+    const handleChangeTranslation = (position: number, text: string) => {
+        setTranslation(position, text);
+        handleAcceptTranslation(position);
+    };
+
+    // Retranslates a single cue, giving the model the neighbouring source lines as context.
+    const handleRetranslate = async (position: number) => {
+        if (!reviewSourceDocument || !reviewOptions) return;
+        const sourceCues = reviewSourceDocument.cues;
+        const neighbours = (from: number, to: number) =>
+            sourceCues.slice(Math.max(0, from), to).map(cue => cue.text).filter(text => text.trim() !== '');
+        const context = {
+            before: neighbours(position - RETRANSLATE_CONTEXT_LINES, position),
+            after: neighbours(position + 1, position + 1 + RETRANSLATE_CONTEXT_LINES),
+        };
+        const provider = createProvider(providerSettings);
+        const [translatedText] = await translateTexts([sourceCues[position].text], provider, reviewOptions, { context, onUsage: recordUsage });
+        setTranslation(position, translatedText);
+        setEditedPositions(prev => { const next = new Set(prev); next.delete(position); return next; });
+        setRetranslatedPositions(prev => new Set(prev).add(position));
+    };
+
+    // Cues whose translation is missing a glossary term that appears in the original.
+    const glossaryIssues = useMemo(
+        () => reviewSourceDocument && translatedDocument
+            ? checkGlossary(reviewSourceDocument.cues, translatedDocument.cues, normalizeGlossary(glossary))
+            : new Map<number, GlossaryEntry[]>(),
+        [reviewSourceDocument, translatedDocument, glossary]
+    );
+
+    const conformanceIssues = useMemo(
+        () => translatedDocument ? checkConformance(translatedDocument.cues, conformanceProfile) : new Map<number, ConformanceIssue[]>(),
+        [translatedDocument, conformanceProfile]
+    );
+
+    // Re-wraps the cues that break the profile and, when asked, has the model condense the rest.
+    const handleConformance = async (condense: boolean) => {
+        if (!translatedDocument || !reviewOptions) return;
+        setIsConforming(true);
+        setError(null);
+        try {
+            const { document: conformedDocument, changes } = await runConformancePass(translatedDocument, conformanceProfile, {
+                provider: condense ? createProvider(providerSettings) : undefined,
+                options: reviewOptions,
+                rateLimiter: createRateLimiter(schedulerSettings),
+                onUsage: recordUsage,
+            });
+            setTranslatedDocument(conformedDocument);
+            setConformanceChanges(changes);
         } catch (e) {
             const errorMessage = e instanceof Error ? e.message : 'Ocorreu um erro desconhecido.';
             setError(errorMessage);
             console.error(e);
         } finally {
-            setIsTranslating(false);
+            setIsConforming(false);
+        }
+    };
+
+    const qualityIssues = useMemo(
+        () => reviewSourceDocument && translatedDocument && reviewOptions
+            ? checkQuality(reviewSourceDocument.cues, translatedDocument.cues, reviewOptions, backTranslations)
+            : new Map<number, QualityIssue[]>(),
+        [reviewSourceDocument, translatedDocument, reviewOptions, backTranslations]
+    );
+
+    const handleBackTranslation = async () => {
+        if (!reviewSourceDocument || !translatedDocument || !reviewOptions) return;
+        setIsCheckingQuality(true);
+        setError(null);
+        try {
+            const { backTranslations: result, failures } = await runBackTranslationPass(reviewSourceDocument.cues, translatedDocument.cues, {
+                provider: createProvider(providerSettings),
+                options: reviewOptions,
+                rateLimiter: createRateLimiter(schedulerSettings),
+                onProgress: (done, total) => setQualityProgress(`A retrotraduzir ${done} de ${total} legendas...`),
+                onUsage: recordUsage,
+            });
+            setBackTranslations(result);
+            setBackTranslationFailures(failures);
+            setQualityProgress(`${result.size} legendas retrotraduzidas.${failures.length > 0 ? ` ${failures.reduce((sum, failure) => sum + failure.positions.length, 0)} ficaram por verificar.` : ''}`);
+        } catch (e) {
+            const errorMessage = e instanceof Error ? e.message : 'Ocorreu um erro desconhecido.';
+            setError(errorMessage);
+            setQualityProgress('');
+            console.error(e);
+        } finally {
+            setIsCheckingQuality(false);
         }
-    }, [inputFile]);
+    };
+
+    const handleDownloadQualityReport = () => {
+        if (!reviewSourceDocument || !translatedDocument || !inputFile) return;
+        const report = stringifyQualityReport(reviewSourceDocument.cues, translatedDocument.cues, qualityIssues, backTranslations);
+        downloadFile(report, getOutputFilename(inputFile.name, `${targetLanguage.fileSuffix}.qualidade`, 'csv'), 'text/csv;charset=utf-8');
+    };
 
     const handleDownload = () => {
-        if (!translatedContent || !inputFile) return;
-        const blob = new Blob([translatedContent], { type: 'text/plain;charset=utf-8' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = getOutputFilename(inputFile.name);
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        if (!translatedDocument || !inputFile) return;
+        // Downloading counts as accepting the review, so edited lines become the preferred translations.
+        if (reviewSourceDocument && reviewOptions && editedPositions.size > 0) {
+            remember(rememberTranslations(
+                Array.from(editedPositions).map(position => ({ source: reviewSourceDocument.cues[position].text, target: translatedDocument.cues[position].text })),
+                reviewOptions,
+                'review',
+            ));
+        }
+        const content = stringifySubtitles(translatedDocument, outputFormat);
+        const extension = getOutputExtension(inputFile.name, translatedDocument.format, outputFormat);
+        downloadFile(content, getOutputFilename(inputFile.name, targetLanguage.fileSuffix, extension), 'text/plain;charset=utf-8');
+    };
+
+    const handleBilingualExport = (id: BilingualExportId) => {
+        if (!reviewSourceDocument || !translatedDocument || !inputFile) return;
+        const { content, extension, mimeType } = buildBilingualExport(id, reviewSourceDocument, translatedDocument, outputFormat, inputFile.name);
+        const { nameSuffix } = BILINGUAL_EXPORTS.find(option => option.id === id)!;
+        downloadFile(content, getOutputFilename(inputFile.name, `${targetLanguage.fileSuffix}.${nameSuffix}`, extension), mimeType);
+    };
+
+    const handleDownloadBatch = () => {
+        const entries = batchFiles
+            .filter(file => batchJobs[file.id] && getJobProgress(batchJobs[file.id]).done > 0)
+            .map(file => ({ file, job: batchJobs[file.id] }));
+        if (entries.length === 0) return;
+        downloadFile(buildBatchZip(entries, targetLanguage.fileSuffix), `legendas.${targetLanguage.fileSuffix}.zip`, 'application/zip');
+    };
+
+    const isBatch = batchFiles.length > 0;
+    const isBatchComplete = isBatch && batchFiles.every(file => batchJobs[file.id] && isJobComplete(batchJobs[file.id]));
+    const canDownloadBatch = batchFiles.some(file => batchJobs[file.id] && getJobProgress(batchJobs[file.id]).done > 0);
+    const providerModel = createProvider(providerSettings).model;
+    const usageRecords = isBatch
+        ? batchFiles.flatMap(file => batchJobs[file.id] ? getJobUsage(batchJobs[file.id]) : [])
+        : job ? getJobUsage(job) : [];
+
+    // What the remaining chunks should cost, chunked as the job will be; files without a job
+    // yet are chunked without the translation memory, which is only looked up on start.
+    const usageEstimate = useMemo(() => {
+        const limits = createProvider(providerSettings).capabilities;
+        const options = { ...translationOptions, style: selectedStyle, sdh: sdhMode, glossary: normalizeGlossary(glossary) };
+        const draftJob = (document: SubtitleDocument, fileName: string) =>
+            createTranslationJob({ id: '', fileName, sourceHash: '', document: applySdhMode(document, sdhMode), options, limits });
+        const jobs = batchFiles.length > 0
+            ? batchFiles.map(file => batchJobs[file.id] ?? draftJob(file.document, file.fileName))
+            : sourceDocument && inputFile ? [job ?? draftJob(applyFixes(sourceDocument, selectedFixes), inputFile.name)] : [];
+        if (jobs.length === 0) return null;
+        return jobs.map(estimateJobUsage).reduce((total, estimate) => ({
+            requests: total.requests + estimate.requests,
+            promptTokens: total.promptTokens + estimate.promptTokens,
+            outputTokens: total.outputTokens + estimate.outputTokens,
+            estimated: true,
+        }));
+    }, [batchFiles, batchJobs, sourceDocument, inputFile, job, selectedFixes, sdhMode, providerSettings, translationOptions, selectedStyle, glossary]);
+
+    const handleExportUsageLog = () => {
+        downloadFile(stringifyUsageLog(usageLog, modelPrices), 'consumo.csv', 'text/csv;charset=utf-8');
     };
 
     return (
         <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-gradient-to-br from-slate-50 to-indigo-100 font-sans">
-            <div className="w-full max-w-2xl bg-white rounded-2xl shadow-2xl shadow-indigo-200/50 overflow-hidden">
+            <div className={`w-full ${translatedDocument ? 'max-w-5xl' : 'max-w-2xl'} bg-white rounded-2xl shadow-2xl shadow-indigo-200/50 overflow-hidden`}>
                 <header className="p-6 bg-indigo-600 text-white text-center">
-                    <h1 className="text-3xl font-bold">Tradutor de Legendas SRT</h1>
-                    <p className="mt-2 text-indigo-200">Traduza as suas legendas para Português Europeu com IA</p>
+                    <h1 className="text-3xl font-bold">Tradutor de Legendas</h1>
+                    <p className="mt-2 text-indigo-200">Traduza as suas legendas para {targetLanguage.label} com IA</p>
                 </header>
 
                 <main className="p-8 space-y-6">
@@ -190,7 +632,7 @@ const App: React.FC = () => {
                         </div>
                     )}
                     
-                    {!translatedContent ? (
+                    {!translatedDocument ? (
                         <>
                             <div
                                 onDragEnter={handleDragEnter}
@@ -204,12 +646,13 @@ const App: React.FC = () => {
                                 <p className="text-slate-600 text-center">
                                     <span className="font-semibold text-indigo-600">Clique para carregar</span> ou arraste e solte
                                 </p>
-                                <p className="text-xs text-slate-500 mt-1">Apenas ficheiros SRT</p>
+                                <p className="text-xs text-slate-500 mt-1">Ficheiros SRT, WebVTT, ASS/SSA ou SBV · vários ficheiros ou um ZIP para traduzir uma temporada</p>
                                 <input
                                     type="file"
                                     ref={fileInputRef}
                                     onChange={(e) => handleFileSelect(e.target.files)}
-                                    accept=".srt"
+                                    accept={[...SUPPORTED_EXTENSIONS, 'zip'].map(extension => `.${extension}`).join(',')}
+                                    multiple
                                     className="hidden"
                                 />
                             </div>
@@ -220,16 +663,89 @@ const App: React.FC = () => {
                                         <Icon name="file" className="w-5 h-5 text-indigo-600"/>
                                         <span className="font-medium text-slate-700">{inputFile.name}</span>
                                     </div>
-                                    <button onClick={() => setInputFile(null)} className="p-1 rounded-full hover:bg-slate-200 transition-colors">
+                                    <button onClick={resetState} className="p-1 rounded-full hover:bg-slate-200 transition-colors">
                                         <Icon name="close" className="w-4 h-4 text-slate-500"/>
                                     </button>
                                 </div>
                             )}
 
+                            {sourceDocument && (
+                                <ValidationReport
+                                    cueCount={sourceDocument.cues.length}
+                                    diagnostics={diagnostics}
+                                    selectedFixes={selectedFixes}
+                                    onChangeFixes={setSelectedFixes}
+                                    disabled={isTranslating || job !== null}
+                                />
+                            )}
+
+                            {(sourceDocument || isBatch) && (
+                                <SdhPanel
+                                    documents={isBatch ? batchFiles.map(file => file.document) : [applyFixes(sourceDocument!, selectedFixes)]}
+                                    mode={job?.options.sdh ?? sdhMode}
+                                    onChange={setSdhMode}
+                                    disabled={isTranslating || job !== null}
+                                />
+                            )}
+
+                            {isBatch && (
+                                <BatchQueue
+                                    files={batchFiles}
+                                    jobs={batchJobs}
+                                    errors={batchErrors}
+                                    activeFileId={activeBatchFileId}
+                                    isTranslating={isTranslating}
+                                    onRemove={handleRemoveBatchFile}
+                                />
+                            )}
+
+                            {job && (
+                                <JobStatus
+                                    job={job}
+                                    activeChunks={activeChunks}
+                                    isTranslating={isTranslating}
+                                    onResume={() => handleTranslate()}
+                                    onRetryChunk={(chunkIndex) => handleTranslate([chunkIndex])}
+                                    onOpenPartial={() => openJobForReview(job)}
+                                    onRestart={handleRestartJob}
+                                />
+                            )}
+
+                            <LanguageSettings value={translationOptions} onChange={setTranslationOptions} disabled={isTranslating} />
+
+                            <ProviderSettings value={providerSettings} onChange={setProviderSettings} rememberApiKey={rememberApiKey} onChangeRememberApiKey={setRememberApiKey} disabled={isTranslating} />
+
+                            <StyleProfilePanel
+                                profiles={styleProfiles}
+                                selectedId={selectedStyle.id}
+                                onChange={setStyleProfiles}
+                                onSelect={setStyleProfileId}
+                                options={translationOptions}
+                                disabled={isTranslating}
+                            />
+
+                            <GlossaryPanel entries={glossary} onChange={setGlossary} cues={isBatch ? batchFiles.flatMap(file => file.document.cues) : sourceDocument?.cues} disabled={isTranslating} />
+
+                            <TranslationMemoryPanel targetLanguage={translationOptions.targetLanguage} version={memoryVersion} disabled={isTranslating} />
+
+                            <SchedulerSettings value={schedulerSettings} onChange={setSchedulerSettings} disabled={isTranslating} />
+
+                            <UsagePanel
+                                model={providerModel}
+                                estimate={usageEstimate}
+                                records={usageRecords}
+                                log={usageLog}
+                                prices={modelPrices}
+                                onChangePrices={setModelPrices}
+                                onExportLog={handleExportUsageLog}
+                            />
+
                             <div className="flex flex-col items-center">
                                 <button
-                                    onClick={handleTranslate}
-                                    disabled={!inputFile || isTranslating}
+                                    onClick={() => isBatch ? handleTranslateBatch() : handleTranslate()}
+                                    disabled={isBatch
+                                        ? isTranslating || isBatchComplete
+                                        : !sourceDocument || !sourceHash || isTranslating || (job !== null && isJobComplete(job))}
                                     className="w-full flex items-center justify-center space-x-2 bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg shadow-md hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed transition-all duration-300 transform hover:scale-105"
                                 >
                                     {isTranslating ? (
@@ -240,7 +756,9 @@ const App: React.FC = () => {
                                     ) : (
                                         <>
                                             <Icon name="translate" className="w-5 h-5"/>
-                                            <span>Traduzir Ficheiro</span>
+                                            <span>{isBatch
+                                                ? (Object.keys(batchJobs).length > 0 && !isBatchComplete ? 'Retomar Lote' : `Traduzir ${batchFiles.length} Ficheiros`)
+                                                : (job && !isJobComplete(job) ? 'Retomar Tradução' : 'Traduzir Ficheiro')}</span>
                                         </>
                                     )}
                                 </button>
@@ -258,14 +776,48 @@ const App: React.FC = () => {
                                                 aria-valuemax={100}
                                             ></div>
                                         </div>
+                                        <div className="text-center mt-3">
+                                            <button
+                                                onClick={handleCancel}
+                                                disabled={isCancelling}
+                                                className="text-sm text-red-600 hover:text-red-700 hover:underline disabled:opacity-50"
+                                            >
+                                                Cancelar
+                                            </button>
+                                        </div>
                                     </div>
                                 )}
+                                {isBatch && canDownloadBatch && !isTranslating && (
+                                    <button
+                                        onClick={handleDownloadBatch}
+                                        className="w-full mt-4 flex items-center justify-center space-x-2 bg-emerald-500 text-white font-bold py-3 px-6 rounded-lg shadow-md hover:bg-emerald-600 transition-all duration-300"
+                                    >
+                                        <Icon name="download" className="w-5 h-5"/>
+                                        <span>{isBatchComplete ? 'Descarregar ZIP' : 'Descarregar ZIP (tradução parcial)'}</span>
+                                    </button>
+                                )}
                             </div>
                         </>
                     ) : (
                          <div className="text-center space-y-6 animate-fade-in">
                             <h2 className="text-2xl font-semibold text-slate-800">Tradução Concluída!</h2>
+                            <p className="text-slate-500 text-sm">Traduzido para {targetLanguage.label} · reveja e edite as legendas antes de descarregar</p>
                              <p className="text-slate-600">{inputFile?.name}</p>
+                            <div className="flex items-center justify-center gap-2 text-sm">
+                                <label htmlFor="output-format" className="text-slate-600">Formato de exportação</label>
+                                <select
+                                    id="output-format"
+                                    value={outputFormat}
+                                    onChange={(e) => setOutputFormat(e.target.value as SubtitleFormat)}
+                                    className="rounded-md border border-slate-300 px-2 py-1 text-slate-700"
+                                >
+                                    {SUBTITLE_FORMATS.map(format => (
+                                        <option key={format.id} value={format.id}>
+                                            {format.label}{format.id === translatedDocument.format ? ' — original' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
                             <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
                                <button
                                     onClick={handleDownload}
@@ -281,12 +833,64 @@ const App: React.FC = () => {
                                     Traduzir Outro Ficheiro
                                 </button>
                             </div>
+                            {reviewSourceDocument && <BilingualExportPanel onExport={handleBilingualExport} />}
+                            <ConformancePanel
+                                profile={conformanceProfile}
+                                onChangeProfile={setConformanceProfile}
+                                issues={conformanceIssues}
+                                changes={conformanceChanges}
+                                cues={translatedDocument.cues}
+                                isRunning={isConforming}
+                                onRun={handleConformance}
+                            />
+                            {reviewSourceDocument && (
+                                <QualityPanel
+                                    sourceCues={reviewSourceDocument.cues}
+                                    translatedCues={translatedDocument.cues}
+                                    issues={qualityIssues}
+                                    backTranslations={backTranslations}
+                                    failures={backTranslationFailures}
+                                    score={getQualityScore(reviewSourceDocument.cues, qualityIssues)}
+                                    isRunning={isCheckingQuality}
+                                    progress={qualityProgress}
+                                    onRunBackTranslation={handleBackTranslation}
+                                    onDownloadReport={handleDownloadQualityReport}
+                                />
+                            )}
+                            <UsagePanel
+                                model={providerModel}
+                                estimate={null}
+                                records={usageRecords}
+                                log={usageLog}
+                                prices={modelPrices}
+                                onChangePrices={setModelPrices}
+                                onExportLog={handleExportUsageLog}
+                            />
+                            <TimingPanel
+                                cues={translatedDocument.cues}
+                                invalidTimings={diagnostics.filter(diagnostic => diagnostic.code === 'invalid-timing')}
+                                onApply={(cues) => setTranslatedDocument(prev => prev && { ...prev, cues })}
+                            />
+                            {reviewSourceDocument && (
+                                <ReviewEditor
+                                    sourceCues={reviewSourceDocument.cues}
+                                    translatedCues={translatedDocument.cues}
+                                    editedPositions={editedPositions}
+                                    retranslatedPositions={retranslatedPositions}
+                                    glossaryIssues={glossaryIssues}
+                                    conformanceIssues={conformanceIssues}
+                                    qualityIssues={qualityIssues}
+                                    onChangeText={handleChangeTranslation}
+                                    onAccept={handleAcceptTranslation}
+                                    onRetranslate={handleRetranslate}
+                                />
+                            )}
                         </div>
                     )}
                 </main>
             </div>
             <footer className="mt-8 text-center text-sm text-slate-500">
-                <p>Desenvolvido com a API Google Gemini</p>
+                <p>Desenvolvido com IA · {providerSettings.providerId === 'gemini' ? 'API Google Gemini' : providerSettings.model}</p>
             </footer>
         </div>
     );
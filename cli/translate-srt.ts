@@ -0,0 +1,269 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, resolve, sep } from "node:path";
+import { parseArgs } from "node:util";
+import type { GlossaryEntry, ProviderId, SdhMode, StyleProfile, SubtitleFormat, UsageRecord } from "../types";
+import {
+    AUDIENCE_OPTIONS, AUTO_DETECT, DEFAULT_MODEL_PRICES, DEFAULT_SCHEDULER_SETTINGS, DEFAULT_STYLE_PROFILE, DEFAULT_STYLE_PROFILES, DEFAULT_TARGET_LANGUAGE, PROVIDER_OPTIONS, SUBTITLE_FORMATS,
+    FORMALITY_OPTIONS, PROFANITY_OPTIONS, REGISTER_OPTIONS, createProvider, detectFormat, findUnknownVariables, getLanguage, getOutputExtension, getOutputFilename, getTargetLanguage,
+    getJobUsage, getRecordsCost, isAbortError, isZipFile, parseGlossary, readSubtitleZip, summarizeUsage, translateSubtitleFile,
+} from "../core";
+
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: translate-srt <input...> [options]
+
+Inputs are subtitle files (.srt, .vtt, .ass, .ssa, .sbv), .zip archives of them,
+directories, or quoted glob patterns such as "season1/**/*.srt".
+
+Options:
+  -o, --output <path>      Output file (single input) or directory (several inputs).
+                           Defaults to the input's folder, e.g. episode.pt.srt
+  -t, --target <code>      Target language (default: ${DEFAULT_TARGET_LANGUAGE})
+  -s, --source <code>      Source language (default: auto-detect)
+  -p, --provider <id>      ${PROVIDER_OPTIONS.map(option => option.id).join(' | ')} (default: gemini)
+  -m, --model <name>       Model name (default: the provider's default)
+      --base-url <url>     Server URL for openai-compatible
+      --api-key <key>      API key (default: $GEMINI_API_KEY / $API_KEY, or $OPENAI_API_KEY)
+  -f, --format <format>    Output format: ${SUBTITLE_FORMATS.map(format => format.id).join(' | ')} (default: same as input)
+  -g, --glossary <file>    Glossary as CSV or JSON
+      --style <id|file>    Style profile: ${DEFAULT_STYLE_PROFILES.map(profile => profile.id).join(' | ')}, or a JSON file
+                           with the profile's fields (default: ${DEFAULT_STYLE_PROFILE.id})
+      --sdh <mode>         Hearing-impaired annotations ([door slams], JOHN:, ♪): translate | strip
+                           (default: translate)
+      --concurrency <n>    Chunks translated in parallel (default: ${DEFAULT_SCHEDULER_SETTINGS.concurrency})
+      --rpm <n>            Requests per minute, 0 for no limit (default: ${DEFAULT_SCHEDULER_SETTINGS.requestsPerMinute})
+      --tpm <n>            Estimated tokens per minute, 0 for no limit (default: ${DEFAULT_SCHEDULER_SETTINGS.tokensPerMinute})
+      --no-fixes           Translate the file as parsed, without the validation fixes
+  -h, --help               Show this help
+
+Progress is written to stderr as one JSON object per line. Exits with 1 if any
+file failed and 2 on invalid arguments.`;
+
+class UsageError extends Error {}
+
+interface InputFile {
+    name: string;
+    // Folder of the file on disk, or of the archive it came from.
+    directory: string;
+    content: string;
+}
+
+// Every line on stderr is JSON, so pipelines can parse progress without guessing.
+const emit = (event: string, data: Record<string, unknown> = {}) => {
+    process.stderr.write(JSON.stringify({ event, ...data }) + '\n');
+};
+
+// The shared services log retries with console.warn/error; keep those in the JSON stream too.
+const captureConsole = () => {
+    const toLog = (level: string) => (...args: unknown[]) =>
+        emit('log', { level, message: args.map(arg => arg instanceof Error ? arg.message : typeof arg === 'string' ? arg : JSON.stringify(arg)).join(' ') });
+    console.log = toLog('info');
+    console.warn = toLog('warn');
+    console.error = toLog('error');
+};
+
+const SDH_MODES: SdhMode[] = ['translate', 'strip'];
+
+const parseCount = (value: string | undefined, fallback: number, name: string): number => {
+    if (value === undefined) return fallback;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) throw new UsageError(`--${name} must be a non-negative integer`);
+    return count;
+};
+
+const STYLE_TEXT_FIELDS = ['id', 'name', 'notes', 'promptTemplate'];
+const STYLE_CHOICES: Record<string, { id: string }[]> = {
+    register: REGISTER_OPTIONS,
+    formality: FORMALITY_OPTIONS,
+    profanity: PROFANITY_OPTIONS,
+    audience: AUDIENCE_OPTIONS,
+};
+
+// A built-in profile id, or a JSON file whose fields override the default profile.
+const readStyle = (value: string): StyleProfile => {
+    const builtIn = DEFAULT_STYLE_PROFILES.find(profile => profile.id === value);
+    if (builtIn) return builtIn;
+    if (!existsSync(value)) throw new UsageError(`Unknown style profile: ${value}`);
+    let data: unknown;
+    try {
+        data = JSON.parse(readFileSync(value, 'utf8'));
+    } catch {
+        throw new UsageError(`Style profile ${value} is not valid JSON`);
+    }
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) throw new UsageError(`Style profile ${value} must be a JSON object`);
+    const fields = data as Record<string, unknown>;
+    for (const name of STYLE_TEXT_FIELDS) {
+        if (name in fields && typeof fields[name] !== 'string') throw new UsageError(`Style profile field "${name}" must be a string`);
+    }
+    for (const [name, options] of Object.entries(STYLE_CHOICES)) {
+        if (name in fields && !options.some(option => option.id === fields[name])) {
+            throw new UsageError(`Style profile field "${name}" must be one of: ${options.map(option => option.id).join(', ')}`);
+        }
+    }
+    const profile = { ...DEFAULT_STYLE_PROFILE, ...fields } as StyleProfile;
+    const unknownVariables = findUnknownVariables(profile.promptTemplate);
+    if (unknownVariables.length > 0) {
+        throw new UsageError(`Unknown variables in the style profile's prompt template: ${unknownVariables.map(name => `{{${name}}}`).join(', ')}`);
+    }
+    return profile;
+};
+
+// Token counts for the progress stream, with the cost when the model is in the default price table.
+const describeUsage = (records: UsageRecord[]) => {
+    const { requests, retries, failures, promptTokens, outputTokens } = summarizeUsage(records);
+    const cost = getRecordsCost(records, DEFAULT_MODEL_PRICES);
+    return { requests, retries, failures, promptTokens, outputTokens, ...(cost !== null ? { costUsd: Number(cost.toFixed(6)) } : {}) };
+};
+
+// A trailing separator marks a directory that may not exist yet; it is created before writing.
+const isDirectoryPath = (path: string): boolean =>
+    path.endsWith('/') || path.endsWith(sep) || (existsSync(path) && statSync(path).isDirectory());
+
+// Supports `*`, `?` and `**` (any number of folders).
+const globToRegExp = (pattern: string): RegExp => {
+    const source = pattern.replace(/\*\*\/|\*\*|\*|\?|[.+^${}()|[\]\\]/g, token => {
+        switch (token) {
+            case '**/': return '(?:.*/)?';
+            case '**': return '.*';
+            case '*': return '[^/]*';
+            case '?': return '[^/]';
+            default: return `\\${token}`;
+        }
+    });
+    return new RegExp(`^${source}$`);
+};
+
+const listFiles = (directory: string): string[] =>
+    readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+        const path = join(directory, entry.name);
+        return entry.isDirectory() ? listFiles(path) : [path];
+    });
+
+const isSupported = (path: string) => detectFormat(path) !== null || isZipFile(path);
+
+// Shells expand globs themselves; quoted patterns (or shells that don't) are expanded here.
+const expandInput = (input: string): string[] => {
+    if (existsSync(input)) {
+        return statSync(input).isDirectory() ? listFiles(input).filter(isSupported).sort() : [input];
+    }
+    if (!/[*?]/.test(input)) throw new UsageError(`Input not found: ${input}`);
+    const firstWildcard = input.search(/[*?]/);
+    const base = input.slice(0, input.lastIndexOf('/', firstWildcard) + 1) || '.';
+    const pattern = globToRegExp(input.replace(/^\.\//, ''));
+    const matches = existsSync(base)
+        ? listFiles(base).map(path => path.replace(/^\.\//, '')).filter(path => pattern.test(path) && isSupported(path)).sort()
+        : [];
+    if (matches.length === 0) throw new UsageError(`No subtitle files match ${input}`);
+    return matches;
+};
+
+const readInputs = (paths: string[]): InputFile[] => paths.flatMap(path => isZipFile(path)
+    ? readSubtitleZip(readFileSync(path)).map(file => ({ ...file, directory: dirname(path) }))
+    : [{ name: basename(path), directory: dirname(path), content: readFileSync(path, 'utf8') }]);
+
+const main = async (): Promise<number> => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            output: { type: 'string', short: 'o' },
+            target: { type: 'string', short: 't', default: DEFAULT_TARGET_LANGUAGE },
+            source: { type: 'string', short: 's', default: AUTO_DETECT },
+            provider: { type: 'string', short: 'p', default: 'gemini' },
+            model: { type: 'string', short: 'm' },
+            'base-url': { type: 'string' },
+            'api-key': { type: 'string' },
+            format: { type: 'string', short: 'f' },
+            glossary: { type: 'string', short: 'g' },
+            style: { type: 'string', default: DEFAULT_STYLE_PROFILE.id },
+            sdh: { type: 'string', default: 'translate' },
+            concurrency: { type: 'string' },
+            rpm: { type: 'string' },
+            tpm: { type: 'string' },
+            'no-fixes': { type: 'boolean', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    if (values.help) {
+        process.stdout.write(USAGE + '\n');
+        return 0;
+    }
+    if (positionals.length === 0) throw new UsageError('No input files given');
+    if (!getLanguage(values.target)) throw new UsageError(`Unknown target language: ${values.target}`);
+    if (values.source !== AUTO_DETECT && !getLanguage(values.source)) throw new UsageError(`Unknown source language: ${values.source}`);
+    const providerOption = PROVIDER_OPTIONS.find(option => option.id === values.provider);
+    if (!providerOption) throw new UsageError(`Unknown provider: ${values.provider}`);
+    const outputFormat = values.format as SubtitleFormat | undefined;
+    if (outputFormat && !SUBTITLE_FORMATS.some(format => format.id === outputFormat)) throw new UsageError(`Unknown output format: ${values.format}`);
+    const sdh = values.sdh as SdhMode;
+    if (!SDH_MODES.includes(sdh)) throw new UsageError(`Unknown SDH mode: ${values.sdh}`);
+
+    const providerId = providerOption.id as ProviderId;
+    const apiKey = values['api-key']
+        ?? (providerId === 'gemini' ? process.env.GEMINI_API_KEY ?? process.env.API_KEY : process.env.OPENAI_API_KEY)
+        ?? '';
+    const provider = createProvider({
+        providerId,
+        model: values.model ?? providerOption.defaultModel,
+        baseUrl: values['base-url'] ?? providerOption.defaultBaseUrl,
+        apiKey,
+    });
+    const scheduler = {
+        concurrency: Math.max(1, parseCount(values.concurrency, DEFAULT_SCHEDULER_SETTINGS.concurrency, 'concurrency')),
+        requestsPerMinute: parseCount(values.rpm, DEFAULT_SCHEDULER_SETTINGS.requestsPerMinute, 'rpm'),
+        tokensPerMinute: parseCount(values.tpm, DEFAULT_SCHEDULER_SETTINGS.tokensPerMinute, 'tpm'),
+    };
+    const glossary: GlossaryEntry[] = values.glossary ? parseGlossary(readFileSync(values.glossary, 'utf8'), values.glossary) : [];
+    const options = { sourceLanguage: values.source, targetLanguage: values.target, style: readStyle(values.style), sdh, glossary };
+
+    const inputs = readInputs(positionals.flatMap(expandInput));
+    if (inputs.length === 0) throw new UsageError('No subtitle files found in the inputs');
+    const singleOutput = inputs.length === 1 && values.output !== undefined && !isDirectoryPath(values.output);
+    const languageSuffix = getTargetLanguage(values.target).fileSuffix;
+
+    const abortController = new AbortController();
+    process.once('SIGINT', () => abortController.abort());
+
+    let failed = 0;
+    const usage: UsageRecord[] = [];
+    for (const input of inputs) {
+        const format = detectFormat(input.name)!;
+        const output = singleOutput
+            ? resolve(values.output!)
+            : join(values.output ?? input.directory, getOutputFilename(input.name, languageSuffix, getOutputExtension(input.name, format, outputFormat ?? format)));
+        emit('start', { file: input.name, provider: provider.id, model: provider.model });
+        try {
+            const result = await translateSubtitleFile(input.content, input.name, {
+                provider,
+                options,
+                scheduler,
+                outputFormat,
+                fixes: values['no-fixes'] ? [] : undefined,
+                signal: abortController.signal,
+                onProgress: ({ done, total }) => emit('progress', { file: input.name, done, total }),
+                onUsage: (record) => usage.push(record),
+            });
+            mkdirSync(dirname(output), { recursive: true });
+            writeFileSync(output, result.content, 'utf8');
+            emit('done', { file: input.name, output, cues: result.document.cues.length, usage: describeUsage(getJobUsage(result.job)) });
+        } catch (e) {
+            failed++;
+            emit('error', { file: input.name, message: e instanceof Error ? e.message : String(e) });
+            if (isAbortError(e)) break;
+        }
+    }
+
+    emit('summary', { files: inputs.length, succeeded: inputs.length - failed, failed, usage: describeUsage(usage) });
+    return failed > 0 ? EXIT_FAILED : 0;
+};
+
+captureConsole();
+main().then(
+    code => { process.exitCode = code; },
+    (e: unknown) => {
+        const usage = e instanceof UsageError || (e instanceof Error && 'code' in e && String(e.code).startsWith('ERR_PARSE_ARGS'));
+        emit('error', { message: e instanceof Error ? e.message : String(e), ...(usage ? { hint: 'Run translate-srt --help for usage.' } : {}) });
+        process.exitCode = usage ? EXIT_USAGE : EXIT_FAILED;
+    },
+);
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { BatchFile, BatchFileStatus, TranslationJob } from '../types';
+import { getBatchFileStatus } from '../services/batchTranslation';
+import { getJobProgress } from '../services/translationJob';
+import Icon from './Icon';
+
+interface BatchQueueProps {
+    files: BatchFile[];
+    jobs: Record<string, TranslationJob>;
+    errors: Record<string, string>;
+    activeFileId: string | null;
+    isTranslating: boolean;
+    onRemove: (fileId: string) => void;
+}
+
+const STATUS_LABELS: Record<BatchFileStatus, string> = {
+    pending: 'Em espera',
+    translating: 'A traduzir',
+    partial: 'Parcial',
+    done: 'Concluído',
+    failed: 'Erro',
+};
+
+const STATUS_STYLES: Record<BatchFileStatus, string> = {
+    pending: 'bg-slate-100 text-slate-600',
+    translating: 'bg-indigo-100 text-indigo-700',
+    partial: 'bg-amber-100 text-amber-700',
+    done: 'bg-emerald-100 text-emerald-700',
+    failed: 'bg-red-100 text-red-700',
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ files, jobs, errors, activeFileId, isTranslating, onRemove }) => {
+    const doneCount = files.filter(file => getBatchFileStatus(jobs[file.id], false, errors[file.id]) === 'done').length;
+
+    return (
+        <div className="rounded-lg border border-slate-200 text-sm">
+            <div className="flex items-center justify-between p-3 border-b border-slate-200">
+                <p className="font-semibold text-slate-700">{files.length} ficheiros em lote</p>
+                <span className="text-slate-500">{doneCount} de {files.length} concluídos</span>
+            </div>
+            <ul className="divide-y divide-slate-200 max-h-80 overflow-y-auto">
+                {files.map(file => {
+                    const job = jobs[file.id];
+                    const status = getBatchFileStatus(job, file.id === activeFileId, errors[file.id]);
+                    const progress = job ? getJobProgress(job) : null;
+                    const percent = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+                    const problemCount = file.diagnostics.filter(d => d.severity !== 'info').length;
+                    return (
+                        <li key={file.id} className="p-3 space-y-1">
+                            <div className="flex items-center gap-3">
+                                <Icon name={status === 'translating' ? 'spinner' : 'file'} className="w-4 h-4 text-indigo-600 shrink-0" />
+                                <span className="flex-1 font-medium text-slate-700 truncate" title={file.fileName}>{file.fileName}</span>
+                                <span className="text-xs text-slate-500">
+                                    {file.document.cues.length} legendas{problemCount > 0 ? ` · ${problemCount} avisos` : ''}
+                                </span>
+                                <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[status]}`}>{STATUS_LABELS[status]}</span>
+                                <button
+                                    onClick={() => onRemove(file.id)}
+                                    disabled={isTranslating}
+                                    title="Retirar do lote"
+                                    className="p-1 rounded-full hover:bg-slate-200 disabled:opacity-40"
+                                >
+                                    <Icon name="close" className="w-3 h-3 text-slate-500" />
+                                </button>
+                            </div>
+                            {progress && status !== 'done' && (
+                                <div className="w-full bg-slate-200 rounded-full h-1.5" role="progressbar" aria-label={`Progresso de ${file.fileName}`} aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+                                    <div className="bg-indigo-600 h-1.5 rounded-full transition-all duration-500" style={{ width: `${percent}%` }}></div>
+                                </div>
+                            )}
+                            {errors[file.id] && <p className="text-xs text-red-600">{errors[file.id]}</p>}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default BatchQueue;
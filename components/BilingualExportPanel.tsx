@@ -0,0 +1,29 @@
+import React from 'react';
+import { BILINGUAL_EXPORTS } from '../utils/formats/bilingual';
+import type { BilingualExportId } from '../utils/formats/bilingual';
+import Icon from './Icon';
+
+interface BilingualExportPanelProps {
+    onExport: (id: BilingualExportId) => void;
+}
+
+const BilingualExportPanel: React.FC<BilingualExportPanelProps> = ({ onExport }) => (
+    <details className="rounded-lg border border-slate-200 p-4 text-sm text-left">
+        <summary className="cursor-pointer font-medium text-slate-700">Exportação bilingue e para revisão</summary>
+        <div className="mt-3 space-y-3">
+            <div className="flex flex-wrap gap-2">
+                {BILINGUAL_EXPORTS.map(option => (
+                    <button key={option.id} onClick={() => onExport(option.id)} className="flex items-center space-x-1 px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300">
+                        <Icon name="download" className="w-4 h-4" />
+                        <span>{option.label}</span>
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-slate-500">
+                A versão bilingue mostra o original a cinzento e em itálico por cima da tradução, no formato de exportação escolhido. O ASS com duas faixas coloca a tradução em baixo e o original em cima, cada um com o seu estilo. As folhas de revisão têm o número, os tempos, o original e a tradução de cada legenda.
+            </p>
+        </div>
+    </details>
+);
+
+export default BilingualExportPanel;
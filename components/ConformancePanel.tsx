@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import type { ConformanceChange, ConformanceIssue, ConformanceIssueCode, ConformanceProfile, SubtitleCue } from '../types';
+import { CONFORMANCE_PRESETS } from '../utils/conformance';
+import Icon from './Icon';
+
+interface ConformancePanelProps {
+    profile: ConformanceProfile;
+    onChangeProfile: (profile: ConformanceProfile) => void;
+    issues: Map<number, ConformanceIssue[]>;
+    // Changes made by the last pass, with the cues to show their numbers.
+    changes: ConformanceChange[];
+    cues: SubtitleCue[];
+    isRunning: boolean;
+    onRun: (condense: boolean) => void;
+}
+
+const inputClassName = 'w-full rounded-md border border-slate-300 px-2 py-1 text-sm text-slate-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:bg-slate-100';
+
+const FIELDS: { key: keyof ConformanceProfile; label: string; min: number }[] = [
+    { key: 'maxCharsPerLine', label: 'Caracteres por linha', min: 1 },
+    { key: 'maxLines', label: 'Linhas', min: 1 },
+    { key: 'maxCps', label: 'Caracteres por segundo', min: 0 },
+    { key: 'minDurationMs', label: 'Duração mínima (ms)', min: 0 },
+];
+
+const ISSUE_LABELS: Record<ConformanceIssueCode, string> = {
+    'line-length': 'linhas demasiado longas',
+    'line-count': 'demasiadas linhas',
+    'reading-speed': 'velocidade de leitura excessiva',
+    'min-duration': 'duração demasiado curta',
+};
+
+const COLLAPSED_LIMIT = 8;
+
+const CHANGE_LABELS: Record<ConformanceChange['kind'], string> = {
+    'rewrapped': 'reorganizada',
+    'condensed': 'condensada',
+    'not-condensed': 'por condensar',
+};
+
+const ConformancePanel: React.FC<ConformancePanelProps> = ({ profile, onChangeProfile, issues, changes, cues, isRunning, onRun }) => {
+    const [isExpanded, setIsExpanded] = useState<boolean>(false);
+    const presetId = CONFORMANCE_PRESETS.find(preset => FIELDS.every(({ key }) => preset.profile[key] === profile[key]))?.id ?? 'custom';
+    const counts = new Map<ConformanceIssueCode, number>();
+    issues.forEach(cueIssues => cueIssues.forEach(issue => counts.set(issue.code, (counts.get(issue.code) ?? 0) + 1)));
+    const visibleChanges = isExpanded ? changes : changes.slice(0, COLLAPSED_LIMIT);
+    const notCondensed = changes.filter(change => change.kind === 'not-condensed').length;
+
+    return (
+        <details className="rounded-lg border border-slate-200 p-4 text-sm text-left">
+            <summary className="cursor-pointer font-medium text-slate-700">
+                Normas de legendagem{' '}
+                <span className={issues.size > 0 ? 'text-amber-700 font-normal' : 'text-emerald-700 font-normal'}>
+                    ({issues.size > 0 ? `${issues.size} legendas fora do perfil` : 'todas as legendas cumprem o perfil'})
+                </span>
+            </summary>
+            <div className="mt-3 space-y-3">
+                <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                    <div className="col-span-2 sm:col-span-1">
+                        <label htmlFor="conformance-preset" className="block font-medium text-slate-700 mb-1">Perfil</label>
+                        <select
+                            id="conformance-preset"
+                            value={presetId}
+                            onChange={(e) => {
+                                const preset = CONFORMANCE_PRESETS.find(p => p.id === e.target.value);
+                                if (preset) onChangeProfile(preset.profile);
+                            }}
+                            disabled={isRunning}
+                            className={inputClassName}
+                        >
+                            {CONFORMANCE_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+                            {presetId === 'custom' && <option value="custom">Personalizado</option>}
+                        </select>
+                    </div>
+                    {FIELDS.map(field => (
+                        <div key={field.key}>
+                            <label htmlFor={`conformance-${field.key}`} className="block font-medium text-slate-700 mb-1">{field.label}</label>
+                            <input
+                                id={`conformance-${field.key}`}
+                                type="number"
+                                min={field.min}
+                                value={profile[field.key]}
+                                onChange={(e) => onChangeProfile({ ...profile, [field.key]: Math.max(field.min, parseInt(e.target.value, 10) || field.min) })}
+                                disabled={isRunning}
+                                className={inputClassName}
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                {counts.size > 0 && (
+                    <ul className="text-slate-600 list-disc list-inside">
+                        {Array.from(counts).map(([code, count]) => <li key={code}>{count} com {ISSUE_LABELS[code]}</li>)}
+                    </ul>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => onRun(false)} disabled={isRunning || issues.size === 0} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50">
+                        Reorganizar linhas
+                    </button>
+                    <button onClick={() => onRun(true)} disabled={isRunning || issues.size === 0} className="flex items-center space-x-1 px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+                        {isRunning && <Icon name="spinner" className="w-4 h-4" />}
+                        <span>Reorganizar e condensar com IA</span>
+                    </button>
+                </div>
+                <p className="text-xs text-slate-500">
+                    As linhas são partidas em pontos naturais da frase; as legendas que continuam demasiado longas ou rápidas são enviadas ao modelo para serem resumidas. A duração mínima tem de ser corrigida nos tempos.
+                </p>
+
+                {changes.length > 0 && (
+                    <div className="space-y-2">
+                        <p className="font-medium text-slate-700">{changes.length - notCondensed} legendas alteradas</p>
+                        {notCondensed > 0 && (
+                            <p className="text-xs text-amber-700">{notCondensed} legendas não foram condensadas porque o modelo falhou ou não as conseguiu encurtar; ficaram apenas reorganizadas, se possível. Pode tentar de novo.</p>
+                        )}
+                        <ul className="space-y-2">
+                            {visibleChanges.map(change => (
+                                <li key={`${change.position}-${change.kind}`} className="grid grid-cols-[auto_1fr_1fr] gap-2 text-xs">
+                                    <span className="font-mono text-slate-500">#{cues[change.position]?.index} {CHANGE_LABELS[change.kind]}</span>
+                                    <span className="whitespace-pre-line text-slate-500 line-through">{change.before}</span>
+                                    <span className="whitespace-pre-line text-slate-700">{change.after}</span>
+                                </li>
+                            ))}
+                        </ul>
+                        {changes.length > COLLAPSED_LIMIT && (
+                            <button onClick={() => setIsExpanded(!isExpanded)} className="text-indigo-600 hover:underline text-xs">
+                                {isExpanded ? 'Mostrar menos' : `Mostrar todas (${changes.length})`}
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+};
+
+export default ConformancePanel;
@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import type { GlossaryEntry, SubtitleBlock } from '../types';
+import { extractCandidateTerms, normalizeGlossary, parseGlossary, stringifyGlossaryCsv, stringifyGlossaryJson } from '../utils/glossary';
+import { downloadFile } from '../utils/download';
+import Icon from './Icon';
+
+interface GlossaryPanelProps {
+    entries: GlossaryEntry[];
+    onChange: (entries: GlossaryEntry[]) => void;
+    // Cues of the loaded file, used to suggest proper nouns.
+    cues?: SubtitleBlock[];
+    disabled?: boolean;
+}
+
+const inputClassName = 'w-full rounded-md border border-slate-300 px-2 py-1 text-sm text-slate-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:bg-slate-100';
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ entries, onChange, cues, disabled }) => {
+    const [message, setMessage] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const updateEntry = (index: number, changes: Partial<GlossaryEntry>) => {
+        onChange(entries.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+    };
+
+    const handleImport = async (files: FileList | null) => {
+        const file = files?.[0];
+        if (!file) return;
+        try {
+            const imported = parseGlossary(await file.text(), file.name);
+            const merged = normalizeGlossary([...entries, ...imported]);
+            onChange(merged);
+            setMessage(`${merged.length - entries.length} termos importados de ${file.name}.`);
+        } catch (e) {
+            setMessage(e instanceof Error ? `Erro ao importar: ${e.message}` : 'Erro ao importar o glossário.');
+        } finally {
+            if (importInputRef.current) importInputRef.current.value = '';
+        }
+    };
+
+    const handleExtract = () => {
+        if (!cues) return;
+        const known = new Set(entries.map(entry => entry.source.toLowerCase()));
+        const candidates = extractCandidateTerms(cues).filter(term => !known.has(term.toLowerCase()));
+        onChange([...entries, ...candidates.map(term => ({ source: term, target: term, note: 'sugerido' }))]);
+        setMessage(candidates.length > 0
+            ? `${candidates.length} nomes próprios sugeridos; reveja-os e apague os que não interessam.`
+            : 'Não foram encontrados novos nomes próprios.');
+    };
+
+    return (
+        <details className="rounded-lg border border-slate-200 p-4 text-sm">
+            <summary className="cursor-pointer font-medium text-slate-700">
+                Glossário {entries.length > 0 && <span className="text-slate-500 font-normal">({entries.length} termos)</span>}
+            </summary>
+            <div className="mt-3 space-y-3">
+                <p className="text-xs text-slate-500">
+                    Nomes e termos recorrentes a traduzir sempre da mesma forma. Deixe a tradução igual ao original para manter o termo; deixe-a vazia para apenas pedir consistência.
+                </p>
+
+                {entries.length > 0 && (
+                    <div className="max-h-64 overflow-y-auto space-y-2">
+                        {entries.map((entry, i) => (
+                            <div key={i} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                                <input value={entry.source} onChange={(e) => updateEntry(i, { source: e.target.value })} placeholder="Original" aria-label="Termo original" disabled={disabled} className={inputClassName} />
+                                <input value={entry.target} onChange={(e) => updateEntry(i, { target: e.target.value })} placeholder="Tradução" aria-label="Tradução do termo" disabled={disabled} className={inputClassName} />
+                                <input value={entry.note ?? ''} onChange={(e) => updateEntry(i, { note: e.target.value })} placeholder="Nota" aria-label="Nota" disabled={disabled} className={inputClassName} />
+                                <button onClick={() => onChange(entries.filter((_, j) => j !== i))} disabled={disabled} title="Remover" className="p-1 rounded-full hover:bg-slate-200">
+                                    <Icon name="close" className="w-4 h-4 text-slate-500" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => onChange([...entries, { source: '', target: '' }])} disabled={disabled} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300">Adicionar termo</button>
+                    <button onClick={handleExtract} disabled={disabled || !cues} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50">Sugerir nomes do ficheiro</button>
+                    <button onClick={() => importInputRef.current?.click()} disabled={disabled} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300">Importar CSV/JSON</button>
+                    <button onClick={() => downloadFile(stringifyGlossaryCsv(normalizeGlossary(entries)), 'glossario.csv', 'text/csv;charset=utf-8')} disabled={entries.length === 0} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50">Exportar CSV</button>
+                    <button onClick={() => downloadFile(stringifyGlossaryJson(normalizeGlossary(entries)), 'glossario.json', 'application/json')} disabled={entries.length === 0} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50">Exportar JSON</button>
+                    {entries.length > 0 && (
+                        <button onClick={() => onChange([])} disabled={disabled} className="px-3 py-1.5 rounded-md text-red-600 hover:bg-red-50">Limpar</button>
+                    )}
+                    <input type="file" ref={importInputRef} onChange={(e) => handleImport(e.target.files)} accept=".csv,.json" className="hidden" />
+                </div>
+
+                {message && <p className="text-xs text-slate-600">{message}</p>}
+            </div>
+        </details>
+    );
+};
+
+export default GlossaryPanel;
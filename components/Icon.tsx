@@ -2,7 +2,7 @@
 import React from 'react';
 
 interface IconProps extends React.SVGProps<SVGSVGElement> {
-  name: 'upload' | 'file' | 'spinner' | 'download' | 'close' | 'translate';
+  name: 'upload' | 'file' | 'spinner' | 'download' | 'close' | 'translate' | 'refresh' | 'flag';
 }
 
 const Icon: React.FC<IconProps> = ({ name, ...props }) => {
@@ -45,6 +45,18 @@ const Icon: React.FC<IconProps> = ({ name, ...props }) => {
                 <path strokeLinecap="round" strokeLinejoin="round" d="M12 3v18" />
             </svg>
         )
+    case 'refresh':
+        return (
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+            </svg>
+        );
+    case 'flag':
+        return (
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" {...props}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 3v1.5M3 21v-6m0 0l2.77-.693a9 9 0 016.208.682l.108.054a9 9 0 006.086.71l3.114-.732a48.524 48.524 0 01-.005-10.499l-3.11.732a9 9 0 01-6.085-.711l-.108-.054a9 9 0 00-6.208-.682L3 4.5M3 15V4.5" />
+            </svg>
+        );
     default:
       return null;
   }
@@ -0,0 +1,73 @@
+import React from 'react';
+import type { ChunkStatus, TranslationJob } from '../types';
+import { getJobProgress, isJobComplete } from '../services/translationJob';
+import Icon from './Icon';
+
+interface JobStatusProps {
+    job: TranslationJob;
+    activeChunks: Set<number>;
+    isTranslating: boolean;
+    onResume: () => void;
+    onRetryChunk: (chunkIndex: number) => void;
+    onOpenPartial: () => void;
+    onRestart: () => void;
+}
+
+const CHUNK_STYLES: Record<ChunkStatus, string> = {
+    pending: 'bg-slate-200',
+    done: 'bg-emerald-500',
+    failed: 'bg-red-500 hover:bg-red-600 cursor-pointer',
+};
+
+const JobStatus: React.FC<JobStatusProps> = ({ job, activeChunks, isTranslating, onResume, onRetryChunk, onOpenPartial, onRestart }) => {
+    const { total, done, failed } = getJobProgress(job);
+    const complete = isJobComplete(job);
+    const memoryCount = Object.keys(job.memoryTranslations ?? {}).length;
+
+    return (
+        <div className="rounded-lg border border-slate-200 p-4 text-sm space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="font-semibold text-slate-700">
+                    {complete ? 'Tradução guardada neste navegador' : 'Tradução em curso guardada neste navegador'}
+                </p>
+                <span className="text-slate-500">
+                    {done} de {total} blocos{failed > 0 ? ` · ${failed} com erro` : ''}{memoryCount > 0 ? ` · ${memoryCount} legendas da memória` : ''}
+                </span>
+            </div>
+
+            <div className="flex flex-wrap gap-1" aria-label="Estado dos blocos">
+                {job.chunks.map((chunk, i) => (
+                    <button
+                        key={i}
+                        type="button"
+                        title={chunk.status === 'failed' ? `Bloco ${i + 1}: ${chunk.error ?? 'erro'} — clique para tentar novamente` : `Bloco ${i + 1}`}
+                        onClick={() => chunk.status === 'failed' && !isTranslating && onRetryChunk(i)}
+                        disabled={chunk.status !== 'failed' || isTranslating}
+                        className={`w-3 h-3 rounded-sm ${activeChunks.has(i) ? 'bg-indigo-500 animate-pulse' : CHUNK_STYLES[chunk.status]}`}
+                    />
+                ))}
+            </div>
+
+            {!isTranslating && (
+                <div className="flex flex-wrap gap-2">
+                    {!complete && (
+                        <button onClick={onResume} className="flex items-center space-x-1 px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700">
+                            <Icon name="refresh" className="w-4 h-4" />
+                            <span>Retomar a partir do bloco {job.chunks.findIndex(chunk => chunk.status !== 'done') + 1}</span>
+                        </button>
+                    )}
+                    {done > 0 && (
+                        <button onClick={onOpenPartial} className="px-3 py-1.5 rounded-md bg-emerald-500 text-white hover:bg-emerald-600">
+                            {complete ? 'Abrir tradução' : 'Rever e exportar a tradução parcial'}
+                        </button>
+                    )}
+                    <button onClick={onRestart} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300">
+                        Recomeçar do zero
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default JobStatus;
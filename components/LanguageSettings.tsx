@@ -0,0 +1,47 @@
+import React from 'react';
+import type { TranslationOptions } from '../types';
+import { AUTO_DETECT, LANGUAGES } from '../utils/languages';
+
+interface LanguageSettingsProps {
+    value: TranslationOptions;
+    onChange: (value: TranslationOptions) => void;
+    disabled?: boolean;
+}
+
+const selectClassName = 'w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:bg-slate-100';
+
+const LanguageSettings: React.FC<LanguageSettingsProps> = ({ value, onChange, disabled }) => (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+            <label htmlFor="source-language" className="block text-sm font-medium text-slate-700 mb-1">Idioma de origem</label>
+            <select
+                id="source-language"
+                value={value.sourceLanguage}
+                onChange={(e) => onChange({ ...value, sourceLanguage: e.target.value })}
+                disabled={disabled}
+                className={selectClassName}
+            >
+                <option value={AUTO_DETECT}>Detetar automaticamente</option>
+                {LANGUAGES.map(language => (
+                    <option key={language.code} value={language.code}>{language.label}</option>
+                ))}
+            </select>
+        </div>
+        <div>
+            <label htmlFor="target-language" className="block text-sm font-medium text-slate-700 mb-1">Idioma de destino</label>
+            <select
+                id="target-language"
+                value={value.targetLanguage}
+                onChange={(e) => onChange({ ...value, targetLanguage: e.target.value })}
+                disabled={disabled}
+                className={selectClassName}
+            >
+                {LANGUAGES.map(language => (
+                    <option key={language.code} value={language.code}>{language.label} ({language.fileSuffix})</option>
+                ))}
+            </select>
+        </div>
+    </div>
+);
+
+export default LanguageSettings;
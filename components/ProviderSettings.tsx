@@ -0,0 +1,91 @@
+import React from 'react';
+import type { ProviderId, ProviderSettings as ProviderSettingsValue } from '../types';
+import { PROVIDER_OPTIONS, getProviderOption } from '../services/providers';
+
+interface ProviderSettingsProps {
+    value: ProviderSettingsValue;
+    onChange: (value: ProviderSettingsValue) => void;
+    // Whether the API key outlives the tab (localStorage) instead of the session (sessionStorage).
+    rememberApiKey: boolean;
+    onChangeRememberApiKey: (remember: boolean) => void;
+    disabled?: boolean;
+}
+
+const inputClassName = 'w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:bg-slate-100';
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ value, onChange, rememberApiKey, onChangeRememberApiKey, disabled }) => {
+    const handleProviderChange = (providerId: ProviderId) => {
+        const option = getProviderOption(providerId);
+        onChange({ providerId, model: option.defaultModel, baseUrl: option.defaultBaseUrl, apiKey: '' });
+    };
+
+    return (
+        <div className="space-y-3 rounded-lg border border-slate-200 p-4">
+            <div>
+                <label htmlFor="provider" className="block text-sm font-medium text-slate-700 mb-1">Serviço de tradução</label>
+                <select
+                    id="provider"
+                    value={value.providerId}
+                    onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                    disabled={disabled}
+                    className={inputClassName}
+                >
+                    {PROVIDER_OPTIONS.map(option => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {value.providerId !== 'mock' && (
+                <div>
+                    <label htmlFor="provider-model" className="block text-sm font-medium text-slate-700 mb-1">Modelo</label>
+                    <input
+                        id="provider-model"
+                        type="text"
+                        value={value.model}
+                        onChange={(e) => onChange({ ...value, model: e.target.value })}
+                        disabled={disabled}
+                        className={inputClassName}
+                    />
+                </div>
+            )}
+
+            {value.providerId === 'openai-compatible' && (
+                <>
+                    <div>
+                        <label htmlFor="provider-url" className="block text-sm font-medium text-slate-700 mb-1">URL base da API</label>
+                        <input
+                            id="provider-url"
+                            type="url"
+                            value={value.baseUrl}
+                            onChange={(e) => onChange({ ...value, baseUrl: e.target.value })}
+                            placeholder="http://localhost:11434/v1"
+                            disabled={disabled}
+                            className={inputClassName}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="provider-key" className="block text-sm font-medium text-slate-700 mb-1">Chave da API (opcional)</label>
+                        <input
+                            id="provider-key"
+                            type="password"
+                            value={value.apiKey}
+                            onChange={(e) => onChange({ ...value, apiKey: e.target.value })}
+                            autoComplete="off"
+                            disabled={disabled}
+                            className={inputClassName}
+                        />
+                        <label className="mt-2 flex items-start space-x-2 text-xs text-slate-600">
+                            <input type="checkbox" checked={rememberApiKey} onChange={(e) => onChangeRememberApiKey(e.target.checked)} disabled={disabled} className="mt-0.5" />
+                            <span>
+                                Lembrar a chave neste navegador. Fica guardada sem encriptação no armazenamento local (localStorage), acessível a quem usar este computador; sem esta opção, é esquecida ao fechar o separador.
+                            </span>
+                        </label>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ProviderSettings;
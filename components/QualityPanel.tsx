@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import type { QualityIssue, QualityIssueCode, SubtitleCue } from '../types';
+import { QUALITY_ISSUE_LABELS } from '../utils/quality';
+import type { BackTranslation } from '../utils/quality';
+import type { BackTranslationFailure } from '../services/qualityCheck';
+import Icon from './Icon';
+
+interface QualityPanelProps {
+    sourceCues: SubtitleCue[];
+    translatedCues: SubtitleCue[];
+    issues: Map<number, QualityIssue[]>;
+    backTranslations: Map<number, BackTranslation>;
+    // Chunks the last back-translation pass could not check.
+    failures: BackTranslationFailure[];
+    // Share of cues without issues, from 0 to 1.
+    score: number;
+    isRunning: boolean;
+    progress: string;
+    onRunBackTranslation: () => void;
+    onDownloadReport: () => void;
+}
+
+const COLLAPSED_LIMIT = 8;
+
+const QualityPanel: React.FC<QualityPanelProps> = ({ sourceCues, translatedCues, issues, backTranslations, failures, score, isRunning, progress, onRunBackTranslation, onDownloadReport }) => {
+    const [isExpanded, setIsExpanded] = useState<boolean>(false);
+    const counts = new Map<QualityIssueCode, number>();
+    issues.forEach(cueIssues => new Set<QualityIssueCode>(cueIssues.map(issue => issue.code)).forEach(code => counts.set(code, (counts.get(code) ?? 0) + 1)));
+    const flagged = Array.from(issues).sort(([a], [b]) => a - b);
+    const visible = isExpanded ? flagged : flagged.slice(0, COLLAPSED_LIMIT);
+
+    return (
+        <details className="rounded-lg border border-slate-200 p-4 text-sm text-left">
+            <summary className="cursor-pointer font-medium text-slate-700">
+                Controlo de qualidade{' '}
+                <span className={issues.size > 0 ? 'text-amber-700 font-normal' : 'text-emerald-700 font-normal'}>
+                    ({Math.round(score * 100)}% sem alertas{issues.size > 0 ? ` · ${issues.size} legendas a rever` : ''})
+                </span>
+            </summary>
+            <div className="mt-3 space-y-3">
+                {counts.size > 0 && (
+                    <ul className="text-slate-600 list-disc list-inside">
+                        {Array.from(counts).map(([code, count]) => <li key={code}>{count} com {QUALITY_ISSUE_LABELS[code]}</li>)}
+                    </ul>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={onRunBackTranslation} disabled={isRunning} className="flex items-center space-x-1 px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+                        {isRunning && <Icon name="spinner" className="w-4 h-4" />}
+                        <span>{backTranslations.size > 0 ? 'Repetir retrotradução com IA' : 'Verificar com retrotradução (IA)'}</span>
+                    </button>
+                    <button onClick={onDownloadReport} disabled={issues.size === 0} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50">
+                        Descarregar relatório (CSV)
+                    </button>
+                </div>
+                {progress && <p className="text-xs text-slate-600">{progress}</p>}
+                {failures.length > 0 && (
+                    <ul className="text-xs text-red-600 space-y-1">
+                        {failures.map((failure, i) => (
+                            <li key={i}>
+                                Legendas #{translatedCues[failure.positions[0]]?.index} a #{translatedCues[failure.positions[failure.positions.length - 1]]?.index} não retrotraduzidas: {failure.error}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <p className="text-xs text-slate-500">
+                    As verificações automáticas procuram traduções vazias ou iguais ao original, comprimentos fora do habitual no ficheiro, números diferentes e palavras em inglês. A retrotradução pede ao modelo que traduza cada legenda de volta para a língua original e assinala as que se afastam do sentido.
+                </p>
+
+                {flagged.length > 0 && (
+                    <ul className="space-y-2">
+                        {visible.map(([position, cueIssues]) => (
+                            <li key={position} className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 text-xs">
+                                <span className="font-mono text-slate-500">#{translatedCues[position]?.index}</span>
+                                <span className="text-amber-700">{cueIssues.map(issue => issue.message).join(' ')}</span>
+                                <span />
+                                <span className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                    <span className="whitespace-pre-line text-slate-500">{sourceCues[position]?.text}</span>
+                                    <span className="whitespace-pre-line text-slate-700">{translatedCues[position]?.text}</span>
+                                    <span className="whitespace-pre-line text-slate-500 italic">{backTranslations.get(position)?.text}</span>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {flagged.length > COLLAPSED_LIMIT && (
+                    <button onClick={() => setIsExpanded(!isExpanded)} className="text-indigo-600 hover:underline text-xs">
+                        {isExpanded ? 'Mostrar menos' : `Mostrar todas (${flagged.length})`}
+                    </button>
+                )}
+            </div>
+        </details>
+    );
+};
+
+export default QualityPanel;
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import type { ConformanceIssue, GlossaryEntry, QualityIssue, SubtitleCue } from '../types';
+import Icon from './Icon';
+
+interface ReviewEditorProps {
+    sourceCues: SubtitleCue[];
+    translatedCues: SubtitleCue[];
+    editedPositions: Set<number>;
+    // Cues retranslated by the model that the user has not accepted or edited yet.
+    retranslatedPositions: Set<number>;
+    // Cues whose translation is missing glossary terms, keyed by position.
+    glossaryIssues: Map<number, GlossaryEntry[]>;
+    // Cues that break the subtitling profile (line length, reading speed...), keyed by position.
+    conformanceIssues: Map<number, ConformanceIssue[]>;
+    // Cues flagged by the quality checks (omissions, numbers, back-translation...), keyed by position.
+    qualityIssues: Map<number, QualityIssue[]>;
+    onChangeText: (position: number, text: string) => void;
+    onAccept: (position: number) => void;
+    onRetranslate: (position: number) => Promise<void>;
+}
+
+type ReviewFilter = 'all' | 'unchanged' | 'edited' | 'glossary' | 'conformance' | 'quality';
+
+const PAGE_SIZE = 50;
+
+export const isUnchangedTranslation = (source: SubtitleCue, translated: SubtitleCue): boolean =>
+    source.text.trim() !== '' && source.text.trim() === translated.text.trim();
+
+const ReviewEditor: React.FC<ReviewEditorProps> = ({ sourceCues, translatedCues, editedPositions, retranslatedPositions, glossaryIssues, conformanceIssues, qualityIssues, onChangeText, onAccept, onRetranslate }) => {
+    const [query, setQuery] = useState<string>('');
+    const [filter, setFilter] = useState<ReviewFilter>('all');
+    const [page, setPage] = useState<number>(0);
+    const [retranslating, setRetranslating] = useState<Set<number>>(new Set());
+    const [rowErrors, setRowErrors] = useState<Map<number, string>>(new Map());
+
+    const unchangedCount = useMemo(
+        () => translatedCues.filter((cue, i) => isUnchangedTranslation(sourceCues[i], cue)).length,
+        [sourceCues, translatedCues]
+    );
+
+    const visiblePositions = useMemo(() => {
+        const needle = query.trim().toLowerCase();
+        return translatedCues.map((_, i) => i).filter(i => {
+            if (filter === 'unchanged' && !isUnchangedTranslation(sourceCues[i], translatedCues[i])) return false;
+            if (filter === 'edited' && !editedPositions.has(i)) return false;
+            if (filter === 'glossary' && !glossaryIssues.has(i)) return false;
+            if (filter === 'conformance' && !conformanceIssues.has(i)) return false;
+            if (filter === 'quality' && !qualityIssues.has(i)) return false;
+            if (!needle) return true;
+            return sourceCues[i].text.toLowerCase().includes(needle) || translatedCues[i].text.toLowerCase().includes(needle);
+        });
+    }, [query, filter, sourceCues, translatedCues, editedPositions, glossaryIssues, conformanceIssues, qualityIssues]);
+
+    const pageCount = Math.max(1, Math.ceil(visiblePositions.length / PAGE_SIZE));
+    const currentPage = Math.min(page, pageCount - 1);
+    const pagePositions = visiblePositions.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+    const handleRetranslate = async (position: number) => {
+        setRetranslating(prev => new Set(prev).add(position));
+        setRowErrors(prev => { const next = new Map(prev); next.delete(position); return next; });
+        try {
+            await onRetranslate(position);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : 'Ocorreu um erro desconhecido.';
+            setRowErrors(prev => new Map(prev).set(position, message));
+        } finally {
+            setRetranslating(prev => { const next = new Set(prev); next.delete(position); return next; });
+        }
+    };
+
+    return (
+        <div className="space-y-4 text-left">
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+                <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => { setQuery(e.target.value); setPage(0); }}
+                    placeholder="Pesquisar no original ou na tradução..."
+                    className="flex-1 rounded-md border border-slate-300 px-3 py-2 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                />
+                <select
+                    value={filter}
+                    onChange={(e) => { setFilter(e.target.value as ReviewFilter); setPage(0); }}
+                    className="rounded-md border border-slate-300 px-3 py-2 text-sm"
+                >
+                    <option value="all">Todas ({translatedCues.length})</option>
+                    <option value="unchanged">Inalteradas ({unchangedCount})</option>
+                    <option value="edited">Editadas ({editedPositions.size})</option>
+                    <option value="glossary">Glossário por rever ({glossaryIssues.size})</option>
+                    <option value="conformance">Fora do perfil ({conformanceIssues.size})</option>
+                    <option value="quality">Alertas de qualidade ({qualityIssues.size})</option>
+                </select>
+            </div>
+
+            <div className="divide-y divide-slate-200 border border-slate-200 rounded-lg">
+                {pagePositions.length === 0 && (
+                    <p className="p-4 text-sm text-slate-500 text-center">Nenhuma legenda corresponde ao filtro.</p>
+                )}
+                {pagePositions.map(position => {
+                    const source = sourceCues[position];
+                    const translated = translatedCues[position];
+                    const unchanged = isUnchangedTranslation(source, translated);
+                    const missingTerms = glossaryIssues.get(position);
+                    const profileIssues = conformanceIssues.get(position);
+                    const cueQualityIssues = qualityIssues.get(position);
+                    const isBusy = retranslating.has(position);
+                    return (
+                        <div key={position} className={`grid grid-cols-1 md:grid-cols-2 gap-3 p-3 ${unchanged ? 'bg-amber-50' : ''}`}>
+                            <div>
+                                <div className="flex items-center gap-2 text-xs text-slate-500 font-mono mb-1">
+                                    <span>#{translated.index}</span>
+                                    <span>{translated.time}</span>
+                                    {unchanged && (
+                                        <span className="flex items-center gap-1 text-amber-700" title="A tradução é igual ao original">
+                                            <Icon name="flag" className="w-3 h-3" /> inalterada
+                                        </span>
+                                    )}
+                                    {editedPositions.has(position) && <span className="text-indigo-600">editada</span>}
+                                    {retranslatedPositions.has(position) && (
+                                        <span className="flex items-center gap-1 text-sky-700">
+                                            retraduzida
+                                            <button onClick={() => onAccept(position)} className="text-indigo-600 hover:underline">Aceitar</button>
+                                        </span>
+                                    )}
+                                    {missingTerms && (
+                                        <span
+                                            className="flex items-center gap-1 text-rose-700"
+                                            title={missingTerms.map(entry => `${entry.source} → ${entry.target}`).join('\n')}
+                                        >
+                                            <Icon name="flag" className="w-3 h-3" /> glossário: {missingTerms.map(entry => entry.target).join(', ')}
+                                        </span>
+                                    )}
+                                    {profileIssues && (
+                                        <span className="flex items-center gap-1 text-orange-700" title={profileIssues.map(issue => issue.message).join('\n')}>
+                                            <Icon name="flag" className="w-3 h-3" /> fora do perfil
+                                        </span>
+                                    )}
+                                    {cueQualityIssues && (
+                                        <span className="flex items-center gap-1 text-violet-700" title={cueQualityIssues.map(issue => issue.message).join('\n')}>
+                                            <Icon name="flag" className="w-3 h-3" /> qualidade
+                                        </span>
+                                    )}
+                                </div>
+                                <p className="text-sm text-slate-700 whitespace-pre-line">{source.text}</p>
+                            </div>
+                            <div className="flex gap-2">
+                                <textarea
+                                    value={translated.text}
+                                    onChange={(e) => onChangeText(position, e.target.value)}
+                                    rows={Math.max(2, translated.text.split('\n').length)}
+                                    disabled={isBusy}
+                                    aria-label={`Tradução da legenda ${translated.index}`}
+                                    className="flex-1 rounded-md border border-slate-300 px-2 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                                />
+                                <button
+                                    onClick={() => handleRetranslate(position)}
+                                    disabled={isBusy}
+                                    title="Traduzir esta linha novamente"
+                                    className="self-start p-2 rounded-md text-slate-500 hover:bg-slate-100 hover:text-indigo-600 disabled:opacity-50"
+                                >
+                                    <Icon name={isBusy ? 'spinner' : 'refresh'} className="w-4 h-4" />
+                                </button>
+                            </div>
+                            {rowErrors.has(position) && (
+                                <p className="md:col-span-2 text-xs text-red-600">{rowErrors.get(position)}</p>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {pageCount > 1 && (
+                <div className="flex items-center justify-center gap-3 text-sm text-slate-600">
+                    <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className="px-3 py-1 rounded-md hover:bg-slate-100 disabled:opacity-40">Anterior</button>
+                    <span>Página {currentPage + 1} de {pageCount}</span>
+                    <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className="px-3 py-1 rounded-md hover:bg-slate-100 disabled:opacity-40">Seguinte</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReviewEditor;
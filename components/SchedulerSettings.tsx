@@ -0,0 +1,41 @@
+import React from 'react';
+import type { SchedulerSettings as SchedulerSettingsValue } from '../types';
+
+interface SchedulerSettingsProps {
+    value: SchedulerSettingsValue;
+    onChange: (value: SchedulerSettingsValue) => void;
+    disabled?: boolean;
+}
+
+const inputClassName = 'w-full rounded-md border border-slate-300 px-3 py-2 text-sm text-slate-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:bg-slate-100';
+
+const FIELDS: { key: keyof SchedulerSettingsValue; label: string; min: number; help: string }[] = [
+    { key: 'concurrency', label: 'Pedidos em paralelo', min: 1, help: 'Blocos traduzidos ao mesmo tempo.' },
+    { key: 'requestsPerMinute', label: 'Pedidos por minuto', min: 0, help: '0 = sem limite.' },
+    { key: 'tokensPerMinute', label: 'Tokens por minuto', min: 0, help: 'Estimativa; 0 = sem limite.' },
+];
+
+const SchedulerSettings: React.FC<SchedulerSettingsProps> = ({ value, onChange, disabled }) => (
+    <details className="rounded-lg border border-slate-200 p-4 text-sm">
+        <summary className="cursor-pointer font-medium text-slate-700">Velocidade e limites da API</summary>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-3">
+            {FIELDS.map(field => (
+                <div key={field.key}>
+                    <label htmlFor={`scheduler-${field.key}`} className="block font-medium text-slate-700 mb-1">{field.label}</label>
+                    <input
+                        id={`scheduler-${field.key}`}
+                        type="number"
+                        min={field.min}
+                        value={value[field.key]}
+                        onChange={(e) => onChange({ ...value, [field.key]: Math.max(field.min, parseInt(e.target.value, 10) || field.min) })}
+                        disabled={disabled}
+                        className={inputClassName}
+                    />
+                    <p className="text-xs text-slate-500 mt-1">{field.help}</p>
+                </div>
+            ))}
+        </div>
+    </details>
+);
+
+export default SchedulerSettings;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import type { SdhElementKind, SdhMode, SubtitleDocument } from '../types';
+import { detectSdh, SDH_ELEMENT_LABELS, stripSdh, stripSdhDocument } from '../utils/sdh';
+
+interface SdhPanelProps {
+    // The loaded file, or every file of a batch.
+    documents: SubtitleDocument[];
+    mode: SdhMode;
+    onChange: (mode: SdhMode) => void;
+    disabled?: boolean;
+}
+
+const COLLAPSED_LIMIT = 8;
+
+const MODE_LABELS: Record<SdhMode, string> = {
+    translate: 'Traduzir as anotações, com uma convenção uniforme ([sons] em minúsculas, NOMES: em maiúsculas)',
+    strip: 'Remover as anotações e produzir uma legenda simples',
+};
+
+const SdhPanel: React.FC<SdhPanelProps> = ({ documents, mode, onChange, disabled }) => {
+    const [isExpanded, setIsExpanded] = useState<boolean>(false);
+    const found = documents.map(document => ({ document, elements: detectSdh(document.cues) }));
+    const cueCount = found.reduce((sum, { elements }) => sum + elements.size, 0);
+    if (cueCount === 0) return null;
+
+    const counts = new Map<SdhElementKind, number>();
+    found.forEach(({ elements }) => elements.forEach(cueElements => cueElements.forEach(element => counts.set(element.kind, (counts.get(element.kind) ?? 0) + 1))));
+    const stripped = documents.map(stripSdhDocument);
+    const removed = stripped.reduce((sum, result) => sum + result.removed, 0);
+    const examples = found.flatMap(({ document, elements }) => Array.from(elements, ([position]) => document.cues[position]));
+    const visible = isExpanded ? examples : examples.slice(0, COLLAPSED_LIMIT);
+
+    return (
+        <div className="rounded-lg border border-slate-200 p-4 text-sm text-left space-y-3">
+            <p className="font-semibold text-slate-700">
+                Legendas para surdos (SDH): {cueCount} legendas com anotações
+            </p>
+            <ul className="text-slate-600 list-disc list-inside">
+                {Array.from(counts).map(([kind, count]) => <li key={kind}>{count} {SDH_ELEMENT_LABELS[kind]}</li>)}
+            </ul>
+            <div className="space-y-1">
+                {(Object.keys(MODE_LABELS) as SdhMode[]).map(option => (
+                    <label key={option} className="flex items-start space-x-2 text-slate-700">
+                        <input type="radio" name="sdh-mode" checked={mode === option} onChange={() => onChange(option)} disabled={disabled} className="mt-0.5" />
+                        <span>{MODE_LABELS[option]}</span>
+                    </label>
+                ))}
+            </div>
+            {mode === 'strip' && (
+                <p className="text-xs text-slate-500">
+                    {removed} legendas ficam vazias ou repetidas e são removidas; as restantes são renumeradas antes da tradução.
+                </p>
+            )}
+
+            <ul className="space-y-1 text-xs">
+                {visible.map((cue, i) => {
+                    const result = stripSdh(cue.text);
+                    return (
+                        <li key={i} className="grid grid-cols-[auto_1fr_1fr] gap-2">
+                            <span className="font-mono text-slate-500">#{cue.index}</span>
+                            <span className="whitespace-pre-line text-slate-700">{cue.text}</span>
+                            <span className="whitespace-pre-line text-slate-500">{mode === 'strip' ? (result || '(removida)') : ''}</span>
+                        </li>
+                    );
+                })}
+            </ul>
+            {examples.length > COLLAPSED_LIMIT && (
+                <button onClick={() => setIsExpanded(!isExpanded)} className="text-indigo-600 hover:underline text-xs">
+                    {isExpanded ? 'Mostrar menos' : `Mostrar todas (${examples.length})`}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default SdhPanel;
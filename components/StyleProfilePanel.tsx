@@ -0,0 +1,124 @@
+import React from 'react';
+import type { StyleProfile, TranslationOptions } from '../types';
+import { buildStyleGuidance } from '../services/promptBuilder';
+import {
+    AUDIENCE_OPTIONS,
+    createStyleProfileId,
+    DEFAULT_PROMPT_TEMPLATE,
+    DEFAULT_STYLE_PROFILE,
+    findUnknownVariables,
+    FORMALITY_OPTIONS,
+    PROFANITY_OPTIONS,
+    PROMPT_VARIABLES,
+    REGISTER_OPTIONS,
+} from '../utils/styleProfiles';
+
+interface StyleProfilePanelProps {
+    profiles: StyleProfile[];
+    selectedId: string;
+    onChange: (profiles: StyleProfile[]) => void;
+    onSelect: (id: string) => void;
+    // Languages of the next translation, for the prompt preview.
+    options: TranslationOptions;
+    disabled?: boolean;
+}
+
+const inputClassName = 'w-full rounded-md border border-slate-300 px-2 py-1 text-sm text-slate-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:bg-slate-100';
+
+const StyleProfilePanel: React.FC<StyleProfilePanelProps> = ({ profiles, selectedId, onChange, onSelect, options, disabled }) => {
+    const selected = profiles.find(profile => profile.id === selectedId) ?? profiles[0] ?? DEFAULT_STYLE_PROFILE;
+    const unknownVariables = findUnknownVariables(selected.promptTemplate);
+
+    const updateSelected = (changes: Partial<StyleProfile>) => {
+        onChange(profiles.map(profile => profile.id === selected.id ? { ...profile, ...changes } : profile));
+    };
+
+    const addProfile = (base: StyleProfile, name: string) => {
+        const profile = { ...base, id: createStyleProfileId(), name };
+        onChange([...profiles, profile]);
+        onSelect(profile.id);
+    };
+
+    const deleteSelected = () => {
+        // The button is disabled for the last profile, so one always remains.
+        const remaining = profiles.filter(profile => profile.id !== selected.id);
+        onChange(remaining);
+        onSelect(remaining[0].id);
+    };
+
+    return (
+        <details className="rounded-lg border border-slate-200 p-4 text-sm text-left">
+            <summary className="cursor-pointer font-medium text-slate-700">
+                Estilo da tradução <span className="text-slate-500 font-normal">({selected.name})</span>
+            </summary>
+            <div className="mt-3 space-y-3">
+                <div className="grid grid-cols-[1fr_auto] gap-2 items-center">
+                    <select value={selected.id} onChange={(e) => onSelect(e.target.value)} aria-label="Perfil de estilo" disabled={disabled} className={inputClassName}>
+                        {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                    </select>
+                    <div className="flex gap-2">
+                        <button onClick={() => addProfile(DEFAULT_STYLE_PROFILE, 'Novo perfil')} disabled={disabled} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300">Novo</button>
+                        <button onClick={() => addProfile(selected, `${selected.name} (cópia)`)} disabled={disabled} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300">Duplicar</button>
+                        <button onClick={deleteSelected} disabled={disabled || profiles.length <= 1} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50">Apagar</button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <label className="block">
+                        <span className="block text-xs text-slate-600 mb-1">Nome</span>
+                        <input value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} disabled={disabled} className={inputClassName} />
+                    </label>
+                    <label className="block">
+                        <span className="block text-xs text-slate-600 mb-1">Registo</span>
+                        <select value={selected.register} onChange={(e) => updateSelected({ register: e.target.value as StyleProfile['register'] })} disabled={disabled} className={inputClassName}>
+                            {REGISTER_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="block text-xs text-slate-600 mb-1">Tratamento</span>
+                        <select value={selected.formality} onChange={(e) => updateSelected({ formality: e.target.value as StyleProfile['formality'] })} disabled={disabled} className={inputClassName}>
+                            {FORMALITY_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="block text-xs text-slate-600 mb-1">Palavrões</span>
+                        <select value={selected.profanity} onChange={(e) => updateSelected({ profanity: e.target.value as StyleProfile['profanity'] })} disabled={disabled} className={inputClassName}>
+                            {PROFANITY_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                        </select>
+                    </label>
+                    <label className="block">
+                        <span className="block text-xs text-slate-600 mb-1">Público</span>
+                        <select value={selected.audience} onChange={(e) => updateSelected({ audience: e.target.value as StyleProfile['audience'] })} disabled={disabled} className={inputClassName}>
+                            {AUDIENCE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                        </select>
+                    </label>
+                </div>
+
+                <label className="block">
+                    <span className="block text-xs text-slate-600 mb-1">Notas para o modelo (em inglês, de preferência)</span>
+                    <textarea value={selected.notes} onChange={(e) => updateSelected({ notes: e.target.value })} rows={2} disabled={disabled} placeholder="Ex.: Keep the catchphrase 'Winter is coming' as 'O inverno está a chegar'." className={inputClassName} />
+                </label>
+
+                <details>
+                    <summary className="cursor-pointer text-xs text-slate-600">Modelo das instruções</summary>
+                    <div className="mt-2 space-y-2">
+                        <textarea value={selected.promptTemplate} onChange={(e) => updateSelected({ promptTemplate: e.target.value })} rows={6} disabled={disabled} spellCheck={false} className={`${inputClassName} font-mono text-xs`} />
+                        <ul className="text-xs text-slate-500 space-y-0.5">
+                            {PROMPT_VARIABLES.map(variable => <li key={variable.name}><code>{`{{${variable.name}}}`}</code> — {variable.description}</li>)}
+                        </ul>
+                        {unknownVariables.length > 0 && (
+                            <p className="text-xs text-amber-700">Variáveis desconhecidas, enviadas tal como estão: {unknownVariables.map(name => `{{${name}}}`).join(', ')}</p>
+                        )}
+                        <p className="text-xs text-slate-500">
+                            As regras do formato da resposta (JSON), do glossário e da memória de tradução são sempre acrescentadas a seguir, para que um modelo editado não impeça a leitura da resposta.
+                        </p>
+                        <button onClick={() => updateSelected({ promptTemplate: DEFAULT_PROMPT_TEMPLATE })} disabled={disabled || selected.promptTemplate === DEFAULT_PROMPT_TEMPLATE} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50">Repor modelo original</button>
+                        <pre className="whitespace-pre-wrap rounded-md bg-slate-50 p-2 text-xs text-slate-600">{buildStyleGuidance({ ...options, style: selected })}</pre>
+                    </div>
+                </details>
+            </div>
+        </details>
+    );
+};
+
+export default StyleProfilePanel;
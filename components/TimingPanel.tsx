@@ -0,0 +1,233 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { SubtitleBlock, SubtitleCue, SubtitleDiagnostic, TimingOperation } from '../types';
+import { applyTimingOperation, diffTimings, parseCueTimings, FRAME_RATES } from '../utils/timing';
+import { detectFormat, formatTimestamp, parseCueTiming, parseSubtitlesWithDiagnostics, parseTimestamp, SUPPORTED_EXTENSIONS } from '../utils/formats';
+
+interface TimingPanelProps {
+    cues: SubtitleCue[];
+    // Timing lines the parser could not read in the original file; their cues are not in `cues`.
+    invalidTimings: SubtitleDiagnostic[];
+    onApply: (cues: SubtitleCue[]) => void;
+}
+
+type TimingMode = TimingOperation['kind'];
+
+interface AnchorInput {
+    cueIndex: string;
+    time: string;
+}
+
+const inputClassName = 'w-full rounded-md border border-slate-300 px-2 py-1 text-sm text-slate-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:bg-slate-100';
+
+const MODES: { id: TimingMode; label: string }[] = [
+    { id: 'shift', label: 'Deslocar' },
+    { id: 'stretch', label: 'Ajustar por dois pontos' },
+    { id: 'framerate', label: 'Converter fotogramas' },
+    { id: 'reference', label: 'Sincronizar com referência' },
+];
+
+const PREVIEW_LIMIT = 8;
+
+// "-2.5" (seconds) or "-00:00:02,500"; null when neither.
+const parseOffset = (value: string): number | null => {
+    const trimmed = value.trim().replace(',', '.');
+    const sign = trimmed.startsWith('-') ? -1 : 1;
+    const unsigned = trimmed.replace(/^[-+]/, '');
+    if (/^\d+(\.\d+)?$/.test(unsigned)) return sign * Math.round(parseFloat(unsigned) * 1000);
+    const ms = parseTimestamp(unsigned);
+    return ms === null ? null : sign * ms;
+};
+
+const TimingPanel: React.FC<TimingPanelProps> = ({ cues, invalidTimings, onApply }) => {
+    const [mode, setMode] = useState<TimingMode>('shift');
+    const [offset, setOffset] = useState<string>('0');
+    const [anchors, setAnchors] = useState<[AnchorInput, AnchorInput]>([
+        { cueIndex: cues[0]?.index ?? '', time: '' },
+        { cueIndex: cues[cues.length - 1]?.index ?? '', time: '' },
+    ]);
+    const [fromFps, setFromFps] = useState<string>('23.976');
+    const [toFps, setToFps] = useState<string>('25');
+    const [reference, setReference] = useState<{ name: string; cues: SubtitleBlock[] } | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const referenceInputRef = useRef<HTMLInputElement>(null);
+
+    // The operation described by the form, or a reason it cannot be built yet.
+    const operation = useMemo((): TimingOperation | string => {
+        switch (mode) {
+            case 'shift': {
+                const offsetMs = parseOffset(offset);
+                return offsetMs === null ? 'Indique o deslocamento em segundos (ex.: -2,5) ou como 00:00:02,500.' : { kind: 'shift', offsetMs };
+            }
+            case 'stretch': {
+                const points = anchors.map(anchor => {
+                    const cue = cues.find(c => c.index === anchor.cueIndex.trim());
+                    const from = cue ? parseCueTiming(cue.time)?.start : undefined;
+                    const to = parseTimestamp(anchor.time);
+                    return from !== undefined && to !== null ? { from, to } : null;
+                });
+                if (points.some(point => point === null)) return 'Escolha duas legendas e o tempo em que cada uma deve começar.';
+                return { kind: 'stretch', anchors: [points[0]!, points[1]!] };
+            }
+            case 'framerate': {
+                const from = FRAME_RATES.find(rate => rate.id === fromFps)!;
+                const to = FRAME_RATES.find(rate => rate.id === toFps)!;
+                return { kind: 'framerate', fromFps: from.fps, toFps: to.fps };
+            }
+            case 'reference':
+                return reference ? { kind: 'reference', cues: reference.cues } : 'Escolha um ficheiro de legendas de referência, na língua de destino.';
+        }
+    }, [mode, offset, anchors, fromFps, toFps, reference, cues]);
+
+    const preview = useMemo((): { cues: SubtitleCue[] } | { error: string } => {
+        if (typeof operation === 'string') return { error: operation };
+        try {
+            return { cues: applyTimingOperation(cues, operation) };
+        } catch (e) {
+            return { error: e instanceof Error ? e.message : 'Não foi possível calcular os novos tempos.' };
+        }
+    }, [operation, cues]);
+    const changes = 'cues' in preview ? diffTimings(cues, preview.cues) : [];
+    const untimed = useMemo(() => parseCueTimings(cues).flatMap((timing, position) => timing ? [] : [position]), [cues]);
+
+    const handleReference = async (files: FileList | null) => {
+        const file = files?.[0];
+        if (!file) return;
+        try {
+            const format = detectFormat(file.name);
+            if (!format) throw new Error(`Formato não suportado. Use ${SUPPORTED_EXTENSIONS.map(extension => `.${extension}`).join(', ')}.`);
+            const { document, diagnostics } = parseSubtitlesWithDiagnostics(await file.text(), format);
+            if (document.cues.length === 0) throw new Error('O ficheiro não tem legendas.');
+            const unread = diagnostics.filter(diagnostic => diagnostic.code === 'invalid-timing').length;
+            setReference({ name: file.name, cues: document.cues });
+            setMessage(unread > 0 ? `${unread} legendas da referência têm tempos ilegíveis e não são usadas.` : null);
+        } catch (e) {
+            setReference(null);
+            setMessage(e instanceof Error ? `Erro ao ler a referência: ${e.message}` : 'Erro ao ler a referência.');
+        } finally {
+            if (referenceInputRef.current) referenceInputRef.current.value = '';
+        }
+    };
+
+    const handleApply = () => {
+        if (!('cues' in preview)) return;
+        onApply(preview.cues);
+        setOffset('0');
+        setMessage(`Tempos de ${changes.length} legendas alterados.${untimed.length > 0 ? ` ${untimed.length} legendas sem tempos válidos ficaram por alterar.` : ''}`);
+    };
+
+    const updateAnchor = (i: number, changes: Partial<AnchorInput>) => {
+        setAnchors(prev => prev.map((anchor, j) => j === i ? { ...anchor, ...changes } : anchor) as [AnchorInput, AnchorInput]);
+    };
+
+    return (
+        <details className="rounded-lg border border-slate-200 p-4 text-sm text-left">
+            <summary className="cursor-pointer font-medium text-slate-700">Sincronização de tempos</summary>
+            <div className="mt-3 space-y-3">
+                <div className="flex flex-wrap gap-2">
+                    {MODES.map(option => (
+                        <button
+                            key={option.id}
+                            onClick={() => setMode(option.id)}
+                            className={`px-3 py-1.5 rounded-md ${mode === option.id ? 'bg-indigo-600 text-white' : 'bg-slate-200 text-slate-700 hover:bg-slate-300'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+
+                {mode === 'shift' && (
+                    <div className="max-w-xs">
+                        <label htmlFor="timing-offset" className="block font-medium text-slate-700 mb-1">Deslocamento (segundos)</label>
+                        <input id="timing-offset" value={offset} onChange={(e) => setOffset(e.target.value)} placeholder="-2,5" className={inputClassName} />
+                        <p className="mt-1 text-xs text-slate-500">Valores negativos adiantam as legendas.</p>
+                    </div>
+                )}
+
+                {mode === 'stretch' && (
+                    <div className="space-y-2">
+                        {anchors.map((anchor, i) => (
+                            <div key={i} className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label htmlFor={`timing-anchor-cue-${i}`} className="block font-medium text-slate-700 mb-1">{i === 0 ? 'Primeira legenda' : 'Segunda legenda'} (n.º)</label>
+                                    <input id={`timing-anchor-cue-${i}`} value={anchor.cueIndex} onChange={(e) => updateAnchor(i, { cueIndex: e.target.value })} className={inputClassName} />
+                                </div>
+                                <div>
+                                    <label htmlFor={`timing-anchor-time-${i}`} className="block font-medium text-slate-700 mb-1">Deve começar em</label>
+                                    <input id={`timing-anchor-time-${i}`} value={anchor.time} onChange={(e) => updateAnchor(i, { time: e.target.value })} placeholder="00:01:23,456" className={inputClassName} />
+                                </div>
+                            </div>
+                        ))}
+                        <p className="text-xs text-slate-500">Corrige um atraso que aumenta ao longo do ficheiro: escolha uma legenda perto do início e outra perto do fim e indique quando devem aparecer no vídeo.</p>
+                    </div>
+                )}
+
+                {mode === 'framerate' && (
+                    <div className="grid grid-cols-2 gap-3 max-w-md">
+                        <div>
+                            <label htmlFor="timing-from-fps" className="block font-medium text-slate-700 mb-1">Legendas feitas para</label>
+                            <select id="timing-from-fps" value={fromFps} onChange={(e) => setFromFps(e.target.value)} className={inputClassName}>
+                                {FRAME_RATES.map(rate => <option key={rate.id} value={rate.id}>{rate.label}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="timing-to-fps" className="block font-medium text-slate-700 mb-1">Vídeo a</label>
+                            <select id="timing-to-fps" value={toFps} onChange={(e) => setToFps(e.target.value)} className={inputClassName}>
+                                {FRAME_RATES.map(rate => <option key={rate.id} value={rate.id}>{rate.label}</option>)}
+                            </select>
+                        </div>
+                    </div>
+                )}
+
+                {mode === 'reference' && (
+                    <div className="space-y-1">
+                        <button onClick={() => referenceInputRef.current?.click()} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300">
+                            {reference ? 'Trocar ficheiro de referência' : 'Escolher ficheiro de referência'}
+                        </button>
+                        {reference && <p className="text-xs text-slate-600">{reference.name} · {reference.cues.length} legendas</p>}
+                        <p className="text-xs text-slate-500">As legendas recebem os tempos da referência com que coincidem, mesmo que estejam divididas ou juntas de outra forma.</p>
+                        <input type="file" ref={referenceInputRef} onChange={(e) => handleReference(e.target.files)} accept={SUPPORTED_EXTENSIONS.map(extension => `.${extension}`).join(',')} className="hidden" />
+                    </div>
+                )}
+
+                {'error' in preview ? (
+                    <p className="text-xs text-slate-500">{preview.error}</p>
+                ) : (
+                    <div className="space-y-2">
+                        <p className="font-medium text-slate-700">
+                            {changes.length > 0 ? `Pré-visualização: ${changes.length} legendas mudam de tempo` : 'Nenhuma legenda muda de tempo.'}
+                        </p>
+                        {invalidTimings.length > 0 && (
+                            <p className="text-xs text-amber-700">
+                                {invalidTimings.length} linhas de tempo do ficheiro original não foram lidas, por isso as suas legendas não estão aqui nem são sincronizadas: {invalidTimings.slice(0, PREVIEW_LIMIT).map(diagnostic => diagnostic.line !== undefined ? `L${diagnostic.line}` : diagnostic.message).join(', ')}{invalidTimings.length > PREVIEW_LIMIT ? '…' : ''}
+                            </p>
+                        )}
+                        {untimed.length > 0 && (
+                            <p className="text-xs text-amber-700">
+                                {untimed.length} legendas têm tempos que não foi possível ler e ficam como estão: {untimed.slice(0, PREVIEW_LIMIT).map(position => `#${cues[position].index}`).join(', ')}{untimed.length > PREVIEW_LIMIT ? '…' : ''}
+                            </p>
+                        )}
+                        {changes.length > 0 && (
+                            <ul className="space-y-1 font-mono text-xs">
+                                {changes.slice(0, PREVIEW_LIMIT).map(change => (
+                                    <li key={change.position} className="grid grid-cols-[auto_1fr_1fr] gap-2">
+                                        <span className="text-slate-500">#{cues[change.position].index}</span>
+                                        <span className="text-slate-500 line-through">{formatTimestamp(change.before.start)} → {formatTimestamp(change.before.end)}</span>
+                                        <span className="text-slate-700">{formatTimestamp(change.after.start)} → {formatTimestamp(change.after.end)}</span>
+                                    </li>
+                                ))}
+                                {changes.length > PREVIEW_LIMIT && <li className="text-slate-500">…</li>}
+                            </ul>
+                        )}
+                    </div>
+                )}
+
+                <button onClick={handleApply} disabled={changes.length === 0} className="px-3 py-1.5 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+                    Aplicar tempos
+                </button>
+                {message && <p className="text-xs text-slate-600">{message}</p>}
+            </div>
+        </details>
+    );
+};
+
+export default TimingPanel;
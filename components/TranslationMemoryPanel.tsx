@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { clearMemory, exportTmx, importTmx, listMemory } from '../services/translationMemory';
+import { downloadFile } from '../utils/download';
+import { getTargetLanguage } from '../utils/languages';
+
+interface TranslationMemoryPanelProps {
+    targetLanguage: string;
+    // Changes whenever the memory was written elsewhere, so the count is reloaded.
+    version: number;
+    disabled?: boolean;
+}
+
+const TranslationMemoryPanel: React.FC<TranslationMemoryPanelProps> = ({ targetLanguage, version, disabled }) => {
+    const [entryCount, setEntryCount] = useState<number | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [reloadKey, setReloadKey] = useState<number>(0);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const language = getTargetLanguage(targetLanguage);
+
+    useEffect(() => {
+        let cancelled = false;
+        listMemory(targetLanguage)
+            .then(entries => { if (!cancelled) setEntryCount(entries.length); })
+            .catch(() => { if (!cancelled) setEntryCount(null); });
+        return () => { cancelled = true; };
+    }, [targetLanguage, version, reloadKey]);
+
+    const run = async (action: () => Promise<string>) => {
+        try {
+            setMessage(await action());
+        } catch (e) {
+            setMessage(e instanceof Error ? `Erro: ${e.message}` : 'Ocorreu um erro desconhecido.');
+        } finally {
+            setReloadKey(key => key + 1);
+        }
+    };
+
+    const handleImport = (files: FileList | null) => {
+        const file = files?.[0];
+        if (!file) return;
+        run(async () => `${await importTmx(await file.text())} traduções importadas de ${file.name}.`)
+            .finally(() => { if (importInputRef.current) importInputRef.current.value = ''; });
+    };
+
+    const handleExport = () => run(async () => {
+        downloadFile(await exportTmx(targetLanguage), `memoria.${language.fileSuffix}.tmx`, 'application/x-tmx+xml');
+        return 'Memória exportada.';
+    });
+
+    const handleClear = () => {
+        if (!window.confirm(`Apagar todas as traduções para ${language.label} guardadas na memória?`)) return;
+        run(async () => {
+            await clearMemory(targetLanguage);
+            return 'Memória apagada.';
+        });
+    };
+
+    return (
+        <details className="rounded-lg border border-slate-200 p-4 text-sm">
+            <summary className="cursor-pointer font-medium text-slate-700">
+                Memória de tradução{' '}
+                {entryCount !== null && <span className="text-slate-500 font-normal">({entryCount} traduções para {language.label})</span>}
+            </summary>
+            <div className="mt-3 space-y-3">
+                <p className="text-xs text-slate-500">
+                    As traduções concluídas e as legendas revistas são guardadas neste navegador. Linhas iguais são reutilizadas sem chamar a API; linhas parecidas são enviadas ao modelo como sugestão.
+                </p>
+                {entryCount === null && <p className="text-xs text-amber-700">A memória não está disponível neste navegador.</p>}
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={() => importInputRef.current?.click()} disabled={disabled || entryCount === null} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50">Importar TMX</button>
+                    <button onClick={handleExport} disabled={!entryCount} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50">Exportar TMX</button>
+                    <button onClick={handleClear} disabled={disabled || !entryCount} className="px-3 py-1.5 rounded-md text-red-600 hover:bg-red-50 disabled:opacity-50">Apagar</button>
+                    <input type="file" ref={importInputRef} onChange={(e) => handleImport(e.target.files)} accept=".tmx,.xml" className="hidden" />
+                </div>
+                {message && <p className="text-xs text-slate-600">{message}</p>}
+            </div>
+        </details>
+    );
+};
+
+export default TranslationMemoryPanel;
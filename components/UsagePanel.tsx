@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import type { ModelPrice, UsageEstimate, UsageRecord } from '../types';
+import { findModelPrice, getRecordsCost, getUsageCost, summarizeUsage, USAGE_KIND_LABELS, USAGE_OUTCOME_LABELS } from '../utils/usage';
+import Icon from './Icon';
+
+interface UsagePanelProps {
+    // Model the next requests go to, for the estimate's price.
+    model: string;
+    // Requests still needed by the current file or batch; null before a file is loaded.
+    estimate: UsageEstimate | null;
+    // Requests already made for the current file or batch, kept with their jobs.
+    records: UsageRecord[];
+    // Every request made since the page was opened, including condensing and back-translation.
+    log: UsageRecord[];
+    prices: ModelPrice[];
+    onChangePrices: (prices: ModelPrice[]) => void;
+    onExportLog: () => void;
+    disabled?: boolean;
+}
+
+const COLLAPSED_LIMIT = 8;
+
+const inputClassName = 'w-full rounded-md border border-slate-300 px-2 py-1 text-sm text-slate-700 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:bg-slate-100';
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString('pt-PT');
+
+const formatCost = (cost: number | null): string => cost === null ? 'sem preço' : `${cost.toFixed(cost < 0.01 ? 4 : 2)} USD`;
+
+interface ChunkUsage {
+    key: string;
+    label: string;
+    records: UsageRecord[];
+}
+
+// Records of the same chunk of the same file, in the order their first request was made.
+const groupByChunk = (records: UsageRecord[], showFile: boolean): ChunkUsage[] => {
+    const groups = new Map<string, ChunkUsage>();
+    for (const record of [...records].sort((a, b) => a.timestamp - b.timestamp)) {
+        const key = `${record.fileName ?? ''}#${record.chunkIndex ?? ''}`;
+        const label = `${showFile && record.fileName ? `${record.fileName} · ` : ''}bloco ${(record.chunkIndex ?? 0) + 1}`;
+        const group = groups.get(key) ?? { key, label, records: [] };
+        group.records.push(record);
+        groups.set(key, group);
+    }
+    return Array.from(groups.values());
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ model, estimate, records, log, prices, onChangePrices, onExportLog, disabled }) => {
+    const [isExpanded, setIsExpanded] = useState<boolean>(false);
+    const modelPrice = findModelPrice(prices, model);
+    const summary = summarizeUsage(records);
+    const cost = getRecordsCost(records, prices);
+    const estimateCost = estimate ? getUsageCost(estimate, modelPrice) : null;
+    const chunks = groupByChunk(records, new Set(records.map(record => record.fileName)).size > 1);
+    const visibleChunks = isExpanded ? chunks : chunks.slice(0, COLLAPSED_LIMIT);
+    const extraLog = log.filter(record => record.kind !== 'translation');
+
+    const updatePrice = (index: number, changes: Partial<ModelPrice>) => {
+        onChangePrices(prices.map((price, i) => i === index ? { ...price, ...changes } : price));
+    };
+
+    return (
+        <details className="rounded-lg border border-slate-200 p-4 text-sm text-left">
+            <summary className="cursor-pointer font-medium text-slate-700">
+                Consumo e custos{' '}
+                <span className="text-slate-500 font-normal">
+                    ({records.length > 0
+                        ? `${summary.requests} pedidos · ${formatCost(cost)}`
+                        : estimate && estimate.requests > 0 ? `estimativa: ${formatCost(estimateCost)}` : 'sem pedidos'})
+                </span>
+            </summary>
+            <div className="mt-3 space-y-3">
+                {estimate && estimate.requests > 0 && (
+                    <div>
+                        <p className="text-slate-700">
+                            Estimativa para {estimate.requests} {estimate.requests === 1 ? 'pedido' : 'pedidos'} em falta com {model}: cerca de {formatTokens(estimate.promptTokens)} tokens de entrada e {formatTokens(estimate.outputTokens)} de saída · {formatCost(estimateCost)}
+                        </p>
+                        <p className="text-xs text-slate-500">
+                            Calculada a partir dos blocos que serão enviados. Não inclui repetições, nem os tokens de raciocínio que alguns modelos cobram como saída, nem as legendas que a memória de tradução venha a dispensar.
+                        </p>
+                    </div>
+                )}
+
+                {records.length > 0 && (
+                    <div>
+                        <p className="text-slate-700">
+                            Consumo real: {summary.requests} pedidos ({summary.retries} repetições, {summary.failures} sem resposta aceite) · {formatTokens(summary.promptTokens)} tokens de entrada e {formatTokens(summary.outputTokens)} de saída · {formatCost(cost)}
+                        </p>
+                        {summary.estimated && (
+                            <p className="text-xs text-slate-500">Alguns pedidos não indicaram o consumo; os tokens desses foram estimados pelo tamanho do texto.</p>
+                        )}
+                        <table className="mt-2 w-full text-xs">
+                            <thead className="text-slate-500">
+                                <tr>
+                                    <th className="text-left font-normal">Bloco</th>
+                                    <th className="text-right font-normal">Pedidos</th>
+                                    <th className="text-right font-normal">Entrada</th>
+                                    <th className="text-right font-normal">Saída</th>
+                                    <th className="text-right font-normal">Custo</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {visibleChunks.map(chunk => {
+                                    const chunkSummary = summarizeUsage(chunk.records);
+                                    const problems = chunk.records.filter(record => record.outcome !== 'ok').map(record => USAGE_OUTCOME_LABELS[record.outcome]);
+                                    return (
+                                        <tr key={chunk.key} className={chunkSummary.requests > 1 ? 'text-amber-700' : 'text-slate-700'} title={problems.join(', ')}>
+                                            <td>{chunk.label}</td>
+                                            <td className="text-right">{chunkSummary.requests}</td>
+                                            <td className="text-right">{formatTokens(chunkSummary.promptTokens)}</td>
+                                            <td className="text-right">{formatTokens(chunkSummary.outputTokens)}</td>
+                                            <td className="text-right">{formatCost(getRecordsCost(chunk.records, prices))}</td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                        {chunks.length > COLLAPSED_LIMIT && (
+                            <button onClick={() => setIsExpanded(!isExpanded)} className="text-indigo-600 hover:underline text-xs">
+                                {isExpanded ? 'Mostrar menos' : `Mostrar todos (${chunks.length})`}
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2">
+                    <button onClick={onExportLog} disabled={log.length === 0} className="flex items-center space-x-1 px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300 disabled:opacity-50">
+                        <Icon name="download" className="w-4 h-4" />
+                        <span>Exportar registo de pedidos (CSV)</span>
+                    </button>
+                    <span className="text-xs text-slate-500">
+                        {log.length} pedidos nesta sessão · {formatCost(getRecordsCost(log, prices))}
+                        {extraLog.length > 0 && `, dos quais ${extraLog.length} de ${Array.from(new Set(extraLog.map(record => USAGE_KIND_LABELS[record.kind]))).join(' e ')}`}
+                    </span>
+                </div>
+
+                <details>
+                    <summary className="cursor-pointer text-xs text-slate-600">Preços por modelo (USD por milhão de tokens)</summary>
+                    <div className="mt-2 space-y-2">
+                        {!modelPrice && (
+                            <p className="text-xs text-amber-700">
+                                Não há preço para {model}.{' '}
+                                <button onClick={() => onChangePrices([...prices, { model, inputPerMillion: 0, outputPerMillion: 0 }])} disabled={disabled} className="text-indigo-600 hover:underline">Adicionar</button>
+                            </p>
+                        )}
+                        {prices.map((price, i) => (
+                            <div key={i} className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2 items-center">
+                                <input value={price.model} onChange={(e) => updatePrice(i, { model: e.target.value })} placeholder="Modelo" aria-label="Modelo" disabled={disabled} className={inputClassName} />
+                                <input type="number" min={0} step="0.01" value={price.inputPerMillion} onChange={(e) => updatePrice(i, { inputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })} aria-label="Preço de entrada" title="Entrada" disabled={disabled} className={inputClassName} />
+                                <input type="number" min={0} step="0.01" value={price.outputPerMillion} onChange={(e) => updatePrice(i, { outputPerMillion: Math.max(0, parseFloat(e.target.value) || 0) })} aria-label="Preço de saída" title="Saída" disabled={disabled} className={inputClassName} />
+                                <button onClick={() => onChangePrices(prices.filter((_, j) => j !== i))} disabled={disabled} title="Remover" className="p-1 rounded-full hover:bg-slate-200">
+                                    <Icon name="close" className="w-4 h-4 text-slate-500" />
+                                </button>
+                            </div>
+                        ))}
+                        <button onClick={() => onChangePrices([...prices, { model: '', inputPerMillion: 0, outputPerMillion: 0 }])} disabled={disabled} className="px-3 py-1.5 rounded-md bg-slate-200 text-slate-700 hover:bg-slate-300">Adicionar modelo</button>
+                    </div>
+                </details>
+            </div>
+        </details>
+    );
+};
+
+export default UsagePanel;
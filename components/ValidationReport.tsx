@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import type { DiagnosticSeverity, SubtitleDiagnostic, SubtitleFix } from '../types';
+import { getApplicableFixes } from '../utils/validation';
+
+interface ValidationReportProps {
+    cueCount: number;
+    diagnostics: SubtitleDiagnostic[];
+    selectedFixes: SubtitleFix[];
+    onChangeFixes: (fixes: SubtitleFix[]) => void;
+    disabled?: boolean;
+}
+
+const COLLAPSED_LIMIT = 8;
+
+const FIX_LABELS: Record<SubtitleFix, string> = {
+    'renumber': 'Renumerar as legendas sequencialmente',
+    'fix-timings': 'Corrigir sobreposições e durações inválidas',
+    'remove-empty': 'Remover legendas sem texto',
+};
+
+const SEVERITY_STYLES: Record<DiagnosticSeverity, string> = {
+    error: 'text-red-700',
+    warning: 'text-amber-700',
+    info: 'text-slate-500',
+};
+
+const ValidationReport: React.FC<ValidationReportProps> = ({ cueCount, diagnostics, selectedFixes, onChangeFixes, disabled }) => {
+    const [isExpanded, setIsExpanded] = useState<boolean>(false);
+    const applicableFixes = getApplicableFixes(diagnostics);
+    const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+    const warningCount = diagnostics.filter(d => d.severity === 'warning').length;
+    const visibleDiagnostics = isExpanded ? diagnostics : diagnostics.slice(0, COLLAPSED_LIMIT);
+
+    const toggleFix = (fix: SubtitleFix) => {
+        onChangeFixes(selectedFixes.includes(fix) ? selectedFixes.filter(f => f !== fix) : [...selectedFixes, fix]);
+    };
+
+    if (diagnostics.length === 0) {
+        return (
+            <p className="text-sm text-emerald-700 bg-emerald-50 rounded-lg p-3">
+                {cueCount} legendas encontradas, sem problemas detetados.
+            </p>
+        );
+    }
+
+    return (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm space-y-3">
+            <p className="font-semibold text-slate-700">
+                {cueCount} legendas encontradas · {errorCount} erros · {warningCount} avisos
+            </p>
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+                {visibleDiagnostics.map((diagnostic, i) => (
+                    <li key={i} className={SEVERITY_STYLES[diagnostic.severity]}>
+                        {diagnostic.line !== undefined && <span className="font-mono mr-2">L{diagnostic.line}</span>}
+                        {diagnostic.message}
+                    </li>
+                ))}
+            </ul>
+            {diagnostics.length > COLLAPSED_LIMIT && (
+                <button onClick={() => setIsExpanded(!isExpanded)} className="text-indigo-600 hover:underline">
+                    {isExpanded ? 'Mostrar menos' : `Mostrar todos (${diagnostics.length})`}
+                </button>
+            )}
+            {applicableFixes.length > 0 && (
+                <fieldset className="space-y-1 border-t border-amber-200 pt-3" disabled={disabled}>
+                    <legend className="font-medium text-slate-700 mb-1">Correções a aplicar antes de traduzir</legend>
+                    {applicableFixes.map(fix => (
+                        <label key={fix} className="flex items-center space-x-2 text-slate-700">
+                            <input type="checkbox" checked={selectedFixes.includes(fix)} onChange={() => toggleFix(fix)} />
+                            <span>{FIX_LABELS[fix]}</span>
+                        </label>
+                    ))}
+                </fieldset>
+            )}
+        </div>
+    );
+};
+
+export default ValidationReport;
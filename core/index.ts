@@ -0,0 +1,34 @@
+// Framework-free entry point: everything needed to parse, translate and write subtitles
+// outside the browser UI (CLI, scripts, pipelines). The web app uses the same modules.
+export type * from "../types";
+export { parseSubtitleFile, translateSubtitleFile } from "./translateFile";
+export type { ParsedSubtitleFile, TranslateFileOptions, TranslatedFile } from "./translateFile";
+export {
+    SUBTITLE_FORMATS, SUPPORTED_EXTENSIONS, detectFormat, parseSubtitles, parseSubtitlesWithDiagnostics,
+    convertDocument, stringifySubtitles, getOutputExtension, getOutputFilename, parseCueTiming, formatCueTiming,
+} from "../utils/formats";
+export { BILINGUAL_EXPORTS, buildBilingualExport, buildStackedDocument, buildDualAssDocument, buildReviewRows, stringifyReviewCsv } from "../utils/formats/bilingual";
+export { createXlsx } from "../utils/xlsx";
+export { validateSubtitles, getApplicableFixes, applyFixes } from "../utils/validation";
+export { chunkSubtitles } from "../utils/chunking";
+export { LANGUAGES, AUTO_DETECT, DEFAULT_SOURCE_LANGUAGE, DEFAULT_TARGET_LANGUAGE, getLanguage, getTargetLanguage } from "../utils/languages";
+export { parseGlossary, normalizeGlossary, checkGlossary } from "../utils/glossary";
+export {
+    AUDIENCE_OPTIONS, DEFAULT_STYLE_PROFILE, DEFAULT_STYLE_PROFILES, DEFAULT_PROMPT_TEMPLATE, FORMALITY_OPTIONS, PROFANITY_OPTIONS, REGISTER_OPTIONS,
+    findUnknownVariables, getStyleRules, renderPromptTemplate,
+} from "../utils/styleProfiles";
+export { SDH_ELEMENT_LABELS, findSdhElements, detectSdh, stripSdh, stripSdhDocument, applySdhMode } from "../utils/sdh";
+export { CONFORMANCE_PRESETS, DEFAULT_CONFORMANCE_PROFILE, checkConformance, wrapText } from "../utils/conformance";
+export { FRAME_RATES, shiftCues, stretchCues, convertFrameRate, alignToReference, applyTimingOperation, diffTimings, parseCueTimings } from "../utils/timing";
+export { checkQuality, getQualityScore, stringifyQualityReport } from "../utils/quality";
+export { DEFAULT_MODEL_PRICES, findModelPrice, getUsageCost, getRecordsCost, summarizeUsage, stringifyUsageLog } from "../utils/usage";
+export { readSubtitleZip, createZip, isZipFile } from "../utils/zip";
+export { PROVIDER_OPTIONS, DEFAULT_PROVIDER_SETTINGS, createProvider } from "../services/providers";
+export { translateTexts, condenseTexts, backTranslateTexts } from "../services/translationService";
+export { createTranslationJob, runTranslationJob, buildJobDocument, getJobProgress, isJobComplete, getJobUsage, estimateJobUsage, DEFAULT_SCHEDULER_SETTINGS } from "../services/translationJob";
+export { estimateTranslationUsage } from "../services/translationService";
+export { runConformancePass } from "../services/conformance";
+export { runBackTranslationPass } from "../services/qualityCheck";
+export type { BackTranslationFailure } from "../services/qualityCheck";
+export { createRateLimiter } from "../services/rateLimiter";
+export { TranslationServiceError, isAbortError } from "../services/errors";
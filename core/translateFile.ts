@@ -0,0 +1,84 @@
+import type { SchedulerSettings, SubtitleDiagnostic, SubtitleDocument, SubtitleFix, SubtitleFormat, TranslationJob, TranslationOptions, TranslationProvider, UsageRecord } from "../types";
+import { detectFormat, parseSubtitlesWithDiagnostics, stringifySubtitles } from "../utils/formats";
+import { applyFixes, getApplicableFixes } from "../utils/validation";
+import { applySdhMode } from "../utils/sdh";
+import { sha256Hex } from "../utils/hash";
+import { buildJobDocument, createTranslationJob, DEFAULT_SCHEDULER_SETTINGS, getJobProgress, runTranslationJob } from "../services/translationJob";
+import { createRateLimiter } from "../services/rateLimiter";
+import { getJobId } from "../services/jobStore";
+
+export interface ParsedSubtitleFile {
+    document: SubtitleDocument;
+    diagnostics: SubtitleDiagnostic[];
+    sourceHash: string;
+}
+
+export interface TranslateFileOptions {
+    provider: TranslationProvider;
+    options: TranslationOptions;
+    scheduler?: SchedulerSettings;
+    // Defaults to the input format.
+    outputFormat?: SubtitleFormat;
+    // Fixes to apply before translating; defaults to every fix the diagnostics call for.
+    fixes?: SubtitleFix[];
+    signal?: AbortSignal;
+    onProgress?: (progress: { done: number; total: number }) => void;
+    // Every request, including those of a file that ends up failing.
+    onUsage?: (record: UsageRecord) => void;
+}
+
+export interface TranslatedFile {
+    document: SubtitleDocument;
+    content: string;
+    diagnostics: SubtitleDiagnostic[];
+    job: TranslationJob;
+}
+
+/** Parses and validates a subtitle file, choosing the format from its extension. */
+export const parseSubtitleFile = async (content: string, fileName: string): Promise<ParsedSubtitleFile> => {
+    const format = detectFormat(fileName);
+    if (!format) {
+        throw new Error(`Unsupported subtitle file: ${fileName}`);
+    }
+    const { document, diagnostics } = parseSubtitlesWithDiagnostics(content, format);
+    if (document.cues.length === 0) {
+        throw new Error(`No subtitle cues found in ${fileName}`);
+    }
+    return { document, diagnostics, sourceHash: await sha256Hex(content) };
+};
+
+/**
+ * Translates one subtitle file from start to finish without any UI or storage:
+ * parse, fix, chunk, translate under the scheduler's limits and serialise. Throws on
+ * the first chunk that fails after its retries, or with an AbortError when cancelled.
+ */
+export const translateSubtitleFile = async (
+    content: string,
+    fileName: string,
+    { provider, options, scheduler = DEFAULT_SCHEDULER_SETTINGS, outputFormat, fixes, signal, onProgress, onUsage }: TranslateFileOptions,
+): Promise<TranslatedFile> => {
+    const { document, diagnostics, sourceHash } = await parseSubtitleFile(content, fileName);
+    const job = createTranslationJob({
+        id: getJobId(sourceHash, options.targetLanguage),
+        fileName,
+        sourceHash,
+        document: applySdhMode(applyFixes(document, fixes ?? getApplicableFixes(diagnostics)), options.sdh),
+        options,
+        limits: provider.capabilities,
+    });
+    onProgress?.(getJobProgress(job));
+    const completedJob = await runTranslationJob(job, provider, {
+        concurrency: scheduler.concurrency,
+        rateLimiter: createRateLimiter(scheduler),
+        signal,
+        onUpdate: (updatedJob) => onProgress?.(getJobProgress(updatedJob)),
+        onUsage,
+    });
+    const translatedDocument = buildJobDocument(completedJob);
+    return {
+        document: translatedDocument,
+        content: stringifySubtitles(translatedDocument, outputFormat ?? translatedDocument.format),
+        diagnostics,
+        job: completedJob,
+    };
+};
@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { STORAGE_PREFIX } from './usePersistentState';
+
+const STORAGE_KEY = STORAGE_PREFIX + 'apiKey';
+
+/**
+ * The provider's API key, kept apart from the other settings: in sessionStorage, so it is
+ * gone when the tab is closed, unless the user chose to remember it in localStorage.
+ */
+export const useApiKey = (remember: boolean, initialValue: string = ''): [string, (apiKey: string) => void] => {
+    const [apiKey, setApiKey] = useState<string>(() => {
+        try {
+            return sessionStorage.getItem(STORAGE_KEY) ?? localStorage.getItem(STORAGE_KEY) ?? initialValue;
+        } catch {
+            return initialValue;
+        }
+    });
+
+    useEffect(() => {
+        try {
+            const [kept, cleared] = remember ? [localStorage, sessionStorage] : [sessionStorage, localStorage];
+            cleared.removeItem(STORAGE_KEY);
+            if (apiKey) {
+                kept.setItem(STORAGE_KEY, apiKey);
+            } else {
+                kept.removeItem(STORAGE_KEY);
+            }
+        } catch (e) {
+            console.warn('Could not store the API key:', e);
+        }
+    }, [apiKey, remember]);
+
+    return [apiKey, setApiKey];
+};
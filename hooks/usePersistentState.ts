@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+
+export const STORAGE_PREFIX = 'srt-translator.';
+
+/**
+ * useState backed by localStorage, so user preferences survive a page reload.
+ * Stored values are merged over the default so new fields get sensible values.
+ */
+export const usePersistentState = <T,>(key: string, defaultValue: T): [T, Dispatch<SetStateAction<T>>] => {
+    const [value, setValue] = useState<T>(() => {
+        try {
+            const stored = localStorage.getItem(STORAGE_PREFIX + key);
+            if (stored === null) return defaultValue;
+            const parsed = JSON.parse(stored);
+            if (defaultValue && typeof defaultValue === 'object' && !Array.isArray(defaultValue)) {
+                return { ...defaultValue, ...parsed };
+            }
+            return parsed;
+        } catch {
+            return defaultValue;
+        }
+    });
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+        } catch (e) {
+            console.warn(`Could not persist setting "${key}":`, e);
+        }
+    }, [key, value]);
+
+    return [value, setValue];
+};
@@ -0,0 +1,130 @@
+import type { BatchFile, BatchFileStatus, TranslationJob, TranslationOptions, TranslationProvider, UsageRecord } from "../types";
+import { detectFormat, getOutputExtension, getOutputFilename, parseSubtitlesWithDiagnostics, stringifySubtitles } from "../utils/formats";
+import { applyFixes, getApplicableFixes } from "../utils/validation";
+import { applySdhMode } from "../utils/sdh";
+import { sha256Hex } from "../utils/hash";
+import { createZip, isZipFile, readSubtitleZip } from "../utils/zip";
+import type { TextFile } from "../utils/zip";
+import { buildJobDocument, createTranslationJob, isJobComplete, runTranslationJob } from "./translationJob";
+import { getJobId } from "./jobStore";
+import { lookupDocumentMemory } from "./translationMemory";
+import { isAbortError } from "./errors";
+import type { RateLimiter } from "./rateLimiter";
+
+interface BatchInput {
+    files: BatchFile[];
+    // Names of files that were not subtitles or had no readable cues.
+    skipped: string[];
+}
+
+interface RunBatchOptions {
+    options: TranslationOptions;
+    concurrency?: number;
+    // Shared by every file, so the per-minute budget holds for the whole batch.
+    rateLimiter?: RateLimiter;
+    signal?: AbortSignal;
+    onFileStart?: (fileId: string) => void;
+    // Called when a file stops running; `error` is set when it failed.
+    onFileEnd?: (fileId: string, error?: unknown) => void;
+    onUpdate?: (fileId: string, job: TranslationJob) => void | Promise<void>;
+    onUsage?: (record: UsageRecord) => void;
+}
+
+/**
+ * Reads the selected files, expanding ZIP archives, and parses every subtitle with
+ * the fixes that would be ticked by default in the single-file validation report.
+ */
+export const readBatchInput = async (selected: File[]): Promise<BatchInput> => {
+    const textFiles: TextFile[] = [];
+    const skipped: string[] = [];
+    for (const file of selected) {
+        if (isZipFile(file.name)) {
+            const extracted = readSubtitleZip(new Uint8Array(await file.arrayBuffer()));
+            if (extracted.length === 0) skipped.push(file.name);
+            textFiles.push(...extracted);
+        } else if (detectFormat(file.name)) {
+            textFiles.push({ name: file.name, content: await file.text() });
+        } else {
+            skipped.push(file.name);
+        }
+    }
+
+    const files: BatchFile[] = [];
+    for (const [i, { name, content }] of textFiles.entries()) {
+        const { document, diagnostics } = parseSubtitlesWithDiagnostics(content, detectFormat(name)!);
+        if (document.cues.length === 0) {
+            skipped.push(name);
+            continue;
+        }
+        files.push({
+            id: `${i}:${name}`,
+            fileName: name,
+            sourceHash: await sha256Hex(content),
+            document: applyFixes(document, getApplicableFixes(diagnostics)),
+            diagnostics,
+        });
+    }
+    return { files, skipped };
+};
+
+export const getBatchFileStatus = (job: TranslationJob | undefined, isActive: boolean, error: string | undefined): BatchFileStatus => {
+    if (isActive) return 'translating';
+    if (error) return 'failed';
+    if (!job) return 'pending';
+    if (isJobComplete(job)) return 'done';
+    return job.chunks.some(chunk => chunk.status !== 'pending') ? 'partial' : 'pending';
+};
+
+/**
+ * Translates the files one after the other, each with its chunks running in parallel.
+ * A file that fails is reported and skipped so the rest of the season still gets done;
+ * cancelling stops the whole batch.
+ */
+export const runBatchTranslation = async (
+    files: BatchFile[],
+    jobs: Record<string, TranslationJob>,
+    provider: TranslationProvider,
+    { options, concurrency, rateLimiter, signal, onFileStart, onFileEnd, onUpdate, onUsage }: RunBatchOptions,
+): Promise<void> => {
+    for (const file of files) {
+        const existing = jobs[file.id];
+        if (existing && isJobComplete(existing)) continue;
+
+        onFileStart?.(file.id);
+        try {
+            const document = applySdhMode(file.document, options.sdh);
+            const job = existing ?? createTranslationJob({
+                id: getJobId(file.sourceHash, options.targetLanguage),
+                fileName: file.fileName,
+                sourceHash: file.sourceHash,
+                document,
+                options,
+                limits: provider.capabilities,
+                memory: await lookupDocumentMemory(document, options.targetLanguage),
+            });
+            if (!existing) await onUpdate?.(file.id, job);
+            await runTranslationJob(job, provider, {
+                concurrency,
+                rateLimiter,
+                signal,
+                onUpdate: (updatedJob) => onUpdate?.(file.id, updatedJob),
+                onUsage,
+            });
+            onFileEnd?.(file.id);
+        } catch (e) {
+            onFileEnd?.(file.id, e);
+            if (isAbortError(e)) throw e;
+        }
+    }
+};
+
+/**
+ * One ZIP with a translated file per job, named like single downloads (`episode.pt.srt`).
+ * Unfinished jobs are included with their untranslated cues left in the original language.
+ */
+export const buildBatchZip = (entries: { file: BatchFile; job: TranslationJob }[], languageSuffix: string): Uint8Array =>
+    createZip(entries.map(({ file, job }) => {
+        const document = buildJobDocument(job);
+        const extension = getOutputExtension(file.fileName, document.format, document.format);
+        return { name: getOutputFilename(file.fileName, languageSuffix, extension), content: stringifySubtitles(document) };
+    }));
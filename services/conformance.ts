@@ -0,0 +1,89 @@
+import type { ConformanceChange, ConformanceProfile, SubtitleDocument, TranslationOptions, TranslationProvider, UsageRecord } from "../types";
+import { checkCue, getDisplayLength, getMaxLength, needsCondensing, wrapText } from "../utils/conformance";
+import { chunkSubtitles } from "../utils/chunking";
+import { condenseTexts } from "./translationService";
+import { isAbortError } from "./errors";
+import type { RateLimiter } from "./rateLimiter";
+
+interface ConformancePassOptions {
+    // Without a provider only the offline re-wrap is done.
+    provider?: TranslationProvider;
+    options: TranslationOptions;
+    signal?: AbortSignal;
+    rateLimiter?: RateLimiter;
+    onProgress?: (done: number, total: number) => void;
+    onUsage?: (record: UsageRecord) => void;
+}
+
+interface ConformancePassResult {
+    document: SubtitleDocument;
+    changes: ConformanceChange[];
+}
+
+/**
+ * Brings a translated document as close to the profile as possible: every cue that
+ * breaks a layout rule is re-wrapped, and cues still too long or too fast to read are
+ * sent back to the model to be condensed to the length their duration allows.
+ * Timing problems (minimum duration) are left for the user to fix.
+ */
+export const runConformancePass = async (
+    document: SubtitleDocument,
+    profile: ConformanceProfile,
+    { provider, options, signal, rateLimiter, onProgress, onUsage }: ConformancePassOptions,
+): Promise<ConformancePassResult> => {
+    const changes: ConformanceChange[] = [];
+    const cues = document.cues.map((cue, position) => {
+        if (!checkCue(cue, profile).some(issue => issue.code === 'line-length' || issue.code === 'line-count')) return cue;
+        const wrapped = wrapText(cue.text, profile);
+        if (wrapped === cue.text) return cue;
+        changes.push({ position, kind: 'rewrapped', before: cue.text, after: wrapped });
+        return { ...cue, text: wrapped };
+    });
+
+    if (provider) {
+        const toCondense = cues
+            .map((cue, position) => ({ ...cue, position }))
+            .filter(cue => needsCondensing(cue, profile));
+        const chunks = chunkSubtitles(toCondense, provider.capabilities);
+        let done = 0;
+        onProgress?.(done, toCondense.length);
+        for (const chunk of chunks) {
+            let condensed: string[];
+            try {
+                condensed = await condenseTexts(
+                    chunk.map(cue => ({ text: cue.text, maxLength: getMaxLength(cue, profile) })),
+                    provider,
+                    options,
+                    { signal, rateLimiter, onUsage },
+                );
+            } catch (e) {
+                if (isAbortError(e)) throw e;
+                // One failed chunk must not cost the re-wraps and the chunks already condensed.
+                console.error('Condensing failed for a chunk; its cues are left as they are:', e);
+                chunk.forEach(cue => changes.push({ position: cue.position, kind: 'not-condensed', before: cue.text, after: cue.text }));
+                done += chunk.length;
+                onProgress?.(done, toCondense.length);
+                continue;
+            }
+            chunk.forEach((cue, i) => {
+                const wrapped = wrapText(condensed[i].trim(), profile);
+                // A "condensed" line that came back longer is worse than the original.
+                if (getDisplayLength(wrapped) >= getDisplayLength(cue.text)) {
+                    changes.push({ position: cue.position, kind: 'not-condensed', before: cue.text, after: cue.text });
+                    return;
+                }
+                const original = document.cues[cue.position].text;
+                const previousChange = changes.findIndex(change => change.position === cue.position);
+                if (previousChange !== -1) changes.splice(previousChange, 1);
+                changes.push({ position: cue.position, kind: 'condensed', before: original, after: wrapped });
+                cues[cue.position] = { ...cues[cue.position], text: wrapped };
+            });
+            done += chunk.length;
+            onProgress?.(done, toCondense.length);
+        }
+    }
+
+    // A re-wrap stays listed next to a failed condensation, since it was still applied.
+    changes.sort((a, b) => a.position - b.position);
+    return { document: { ...document, cues }, changes };
+};
@@ -0,0 +1,65 @@
+const DB_NAME = 'srt-translator';
+const DB_VERSION = 2;
+
+export const STORE_JOBS = 'jobs';
+export const STORE_MEMORY = 'memory';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this environment.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(STORE_JOBS)) {
+                    db.createObjectStore(STORE_JOBS, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(STORE_MEMORY)) {
+                    db.createObjectStore(STORE_MEMORY, { keyPath: 'id' }).createIndex('targetLanguage', 'targetLanguage');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error('Could not open the local database.'));
+        });
+        // Allow a later call to retry if opening failed (e.g. private browsing).
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+/** Runs a single request against one object store and resolves with its result. */
+export const runRequest = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = createRequest(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? request.error ?? new Error('Local database request failed.'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('Local database transaction was aborted.'));
+    });
+};
+
+/** Runs several requests in one transaction and resolves once it has committed. */
+export const runTransaction = async (
+    storeName: string,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => void,
+): Promise<void> => {
+    const db = await openDatabase();
+    return new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        work(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error ?? new Error('Local database request failed.'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('Local database transaction was aborted.'));
+    });
+};
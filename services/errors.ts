@@ -0,0 +1,51 @@
+/** Error raised by a provider for a failed request, carrying what the retry logic needs. */
+export class TranslationServiceError extends Error {
+    status?: number;
+    retryAfterMs?: number;
+
+    constructor(message: string, { status, retryAfterMs }: { status?: number; retryAfterMs?: number } = {}) {
+        super(message);
+        this.name = 'TranslationServiceError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export const isRateLimitError = (error: unknown): error is TranslationServiceError =>
+    error instanceof TranslationServiceError && error.status === 429;
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException ? error.name === 'AbortError' : error instanceof Error && error.name === 'AbortError';
+
+export const createAbortError = (): Error => {
+    const error = new Error('The translation was cancelled.');
+    error.name = 'AbortError';
+    return error;
+};
+
+/** Parses an HTTP Retry-After header (seconds or HTTP date) into milliseconds. */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/** setTimeout as a promise that rejects with an AbortError when the signal fires. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
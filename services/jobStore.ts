@@ -0,0 +1,13 @@
+import type { TranslationJob } from "../types";
+import { runRequest, STORE_JOBS } from "./db";
+
+export const getJobId = (sourceHash: string, targetLanguage: string): string => `${sourceHash}:${targetLanguage}`;
+
+export const saveJob = (job: TranslationJob): Promise<IDBValidKey> =>
+    runRequest(STORE_JOBS, 'readwrite', store => store.put(job));
+
+export const loadJob = async (id: string): Promise<TranslationJob | null> =>
+    (await runRequest<TranslationJob | undefined>(STORE_JOBS, 'readonly', store => store.get(id))) ?? null;
+
+export const deleteJob = (id: string): Promise<undefined> =>
+    runRequest(STORE_JOBS, 'readwrite', store => store.delete(id));
@@ -0,0 +1,30 @@
+import type { ProviderResponse, TranslationItem, TranslationProvider } from "../types";
+import { sleep } from "./errors";
+
+interface MockProviderOptions {
+    latencyMs?: number;
+}
+
+/**
+ * Deterministic provider for development and tests: every line comes back
+ * prefixed with a marker, so no network access or API key is required.
+ */
+export const createMockProvider = ({ latencyMs = 150 }: MockProviderOptions = {}): TranslationProvider => ({
+    id: 'mock',
+    label: 'Mock (offline)',
+    model: 'mock',
+    capabilities: {
+        structuredOutput: true,
+        requiresApiKey: false,
+        requiresBaseUrl: false,
+        maxItemsPerRequest: 200,
+        maxCharactersPerRequest: 3750,
+    },
+    translateBatch: async (items: TranslationItem[], _systemInstruction: string, signal?: AbortSignal): Promise<ProviderResponse> => {
+        if (latencyMs > 0) {
+            await sleep(latencyMs, signal);
+        }
+        // No usage is reported, so the caller estimates it like for servers that omit it.
+        return { text: JSON.stringify(items.filter(item => !item.context).map(item => ({ id: item.id, text: `[MOCK] ${item.text}` }))) };
+    },
+});
@@ -0,0 +1,74 @@
+import type { ProviderResponse, TranslationItem, TranslationProvider } from "../types";
+import { parseRetryAfter, TranslationServiceError } from "./errors";
+
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_MODEL = "llama3.1";
+
+interface OpenAiProviderOptions {
+    baseUrl?: string;
+    model?: string;
+    apiKey?: string;
+}
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null } }[];
+    // Most servers report it; some local ones leave it out.
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` endpoint
+ * (OpenAI itself, llama.cpp, Ollama, LM Studio, vLLM...).
+ */
+export const createOpenAiProvider = ({ baseUrl, model, apiKey }: OpenAiProviderOptions = {}): TranslationProvider => {
+    const endpoint = `${(baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+    const resolvedModel = model || DEFAULT_OPENAI_MODEL;
+
+    return {
+        id: 'openai-compatible',
+        label: 'OpenAI-compatible (HTTP)',
+        model: resolvedModel,
+        capabilities: {
+            structuredOutput: false,
+            requiresApiKey: false,
+            requiresBaseUrl: true,
+            maxItemsPerRequest: 100,
+            // Local models usually run with small context windows, so keep batches modest.
+            maxCharactersPerRequest: 2500,
+        },
+        translateBatch: async (items: TranslationItem[], systemInstruction: string, signal?: AbortSignal): Promise<ProviderResponse> => {
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (apiKey) {
+                headers['Authorization'] = `Bearer ${apiKey}`;
+            }
+
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                signal,
+                headers,
+                body: JSON.stringify({
+                    model: resolvedModel,
+                    temperature: 0.2,
+                    messages: [
+                        { role: 'system', content: systemInstruction },
+                        { role: 'user', content: JSON.stringify(items) },
+                    ],
+                }),
+            });
+
+            if (!response.ok) {
+                const body = await response.text().catch(() => '');
+                throw new TranslationServiceError(
+                    `The translation server responded with HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`,
+                    { status: response.status, retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) },
+                );
+            }
+
+            const data: ChatCompletionResponse = await response.json();
+            return {
+                text: data.choices?.[0]?.message?.content ?? '',
+                usage: data.usage && { promptTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 },
+            };
+        },
+    };
+};
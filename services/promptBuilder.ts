@@ -0,0 +1,113 @@
+import type { GlossaryEntry, MemoryMatch, StyleProfile, TranslationOptions } from "../types";
+import { stripMarkup } from "../utils/formats/markup";
+import { AUTO_DETECT, getLanguage, getTargetLanguage } from "../utils/languages";
+import { DEFAULT_PROMPT_TEMPLATE, DEFAULT_STYLE_PROFILE, getStyleRules, renderPromptTemplate, usesVariable } from "../utils/styleProfiles";
+
+const PLACEHOLDER_RULE = `- Some texts contain placeholders such as ⟦1⟧ that stand for formatting tags or dialogue dashes. Keep every placeholder exactly once and unchanged, in the matching position of your text (around the same words, or at the start of the same line).`;
+
+const CONTEXT_RULE = `- Some objects have "context": true. They are the lines spoken just before or after, given only so you can keep grammar, gender, pronouns and sentences that span several lines consistent. Do NOT translate them and do NOT include them in your response.`;
+
+// One convention for SDH annotations, however the source file wrote them.
+const SDH_RULE = `- Some texts contain annotations for deaf and hard-of-hearing viewers. Translate them with one consistent convention: sound and music descriptions in square brackets, in lowercase, as short present-tense phrases (e.g. "(SIGHS)" becomes the equivalent of "[sighs]"); speaker labels in capitals followed by a colon, translating descriptions such as MAN or NARRATOR but never names; music symbols (♪) kept where they are, with the lyrics between them translated.`;
+
+interface PromptExtras {
+    hasContext?: boolean;
+    hasPlaceholders?: boolean;
+    // Whether any text has SDH annotations (sounds, music, speaker labels).
+    hasSdh?: boolean;
+    // Only the glossary entries relevant to this request.
+    glossary?: GlossaryEntry[];
+    memoryHints?: MemoryMatch[];
+}
+
+const buildGlossarySection = (glossary: GlossaryEntry[]): string => {
+    const lines = glossary.map(entry => {
+        const rendering = entry.target === ''
+            ? 'translate consistently every time'
+            : entry.target === entry.source ? 'keep as is, do not translate' : `always "${entry.target}"`;
+        return `  - "${entry.source}": ${rendering}${entry.note ? ` (${entry.note})` : ''}`;
+    });
+    return `- Use this glossary for names and recurring terms, adapting only grammatical inflection where the language requires it:\n${lines.join('\n')}\n`;
+};
+
+const buildMemorySection = (hints: MemoryMatch[]): string => {
+    const lines = hints.map(hint => `  - ${JSON.stringify(stripMarkup(hint.source))} was translated as ${JSON.stringify(stripMarkup(hint.target))}`);
+    return `- Similar lines were translated before. Reuse their wording where the meaning is the same, so recurring lines stay consistent:\n${lines.join('\n')}\n`;
+};
+
+const formatRules = (rules: string[]): string => rules.map(rule => `- ${rule}`).join('\n');
+
+const getPromptTemplate = (style: StyleProfile): string => style.promptTemplate.trim() || DEFAULT_PROMPT_TEMPLATE;
+
+/**
+ * The part of the prompt the style profile controls: its template rendered with the
+ * languages and the rules for its register, formality, profanity policy and audience.
+ */
+export const buildStyleGuidance = ({ sourceLanguage, targetLanguage, style = DEFAULT_STYLE_PROFILE }: TranslationOptions): string => {
+    const target = getTargetLanguage(targetLanguage);
+    const source = sourceLanguage === AUTO_DETECT ? undefined : getLanguage(sourceLanguage);
+    return renderPromptTemplate(getPromptTemplate(style), {
+        sourceLanguage: source ? source.name : 'the source language (detect it automatically)',
+        targetLanguage: target.name,
+        styleRules: formatRules(getStyleRules(style, target)),
+        profileName: style.name,
+        notes: style.notes.trim() ? `- Also follow these notes from the client: ${style.notes.trim()}` : '',
+    }).trim();
+};
+
+// The guidance comes from an editable template; the JSON contract after it never does,
+// so a custom template cannot break response parsing.
+export const buildSystemInstruction = (options: TranslationOptions, { hasContext = false, hasPlaceholders = false, hasSdh = false, glossary = [], memoryHints = [] }: PromptExtras = {}): string => {
+    const target = getTargetLanguage(options.targetLanguage);
+    const source = options.sourceLanguage === AUTO_DETECT ? undefined : getLanguage(options.sourceLanguage);
+    const sourceClause = source
+        ? `from ${source.name} into ${target.name}`
+        : `into ${target.name} (detect the source language automatically)`;
+    const scope = hasContext ? ' that does not have "context": true' : '';
+    const style = options.style ?? DEFAULT_STYLE_PROFILE;
+    // Templates that name the target language already state the language pair.
+    const pairClause = usesVariable(getPromptTemplate(style), 'targetLanguage') ? '' : ` ${sourceClause}`;
+    // An informal example would contradict a profile that asks for formal address.
+    const example = style.formality === 'formal' ? target.formalExample ?? target.example : target.example;
+
+    return `${buildStyleGuidance(options)}
+
+Your task is to translate the 'text' field for each object in a JSON array${pairClause}.
+- The user will provide a JSON array of objects, where each object has an 'id' (number) and a 'text' (string).
+- You MUST respond with a JSON array of objects with the exact same structure ('id' and 'text').
+- The output array must contain exactly one object for each input object${scope}, with the exact same IDs.
+- For each object, the 'id' must be preserved, and the 'text' field must be the translation.
+${hasContext ? `${CONTEXT_RULE}\n` : ''}${hasPlaceholders ? `${PLACEHOLDER_RULE}\n` : ''}${hasSdh ? `${SDH_RULE}\n` : ''}${glossary.length > 0 ? buildGlossarySection(glossary) : ''}${memoryHints.length > 0 ? buildMemorySection(memoryHints) : ''}- Your entire response must be only the JSON array, with no surrounding text, explanations, or markdown formatting.
+Example Input: [{"id":0,"text":"Hello, world."},{"id":1,"text":"How are you?"}]
+Example Output: [{"id":0,"text":${JSON.stringify(example[0])}},{"id":1,"text":${JSON.stringify(example[1])}}]`;
+};
+
+/** Instruction for shortening lines that are already translated, see condenseTexts. */
+export const buildCondenseInstruction = ({ targetLanguage, style = DEFAULT_STYLE_PROFILE }: TranslationOptions, { hasPlaceholders = false }: PromptExtras = {}): string => {
+    const target = getTargetLanguage(targetLanguage);
+    const styleRules = formatRules(getStyleRules(style, target));
+
+    return `You are an expert subtitle editor. Each object in the JSON array has an 'id' (number), a 'text' (string) written in ${target.name} and a 'maxLength' (number).
+- Rewrite each 'text' in ${target.name} so that it has at most 'maxLength' characters, not counting line breaks, so viewers have time to read it.
+- Keep the meaning, tone and register: drop filler words, repetitions and redundant information, and prefer shorter words and constructions. Never drop names or information the viewer needs.
+${hasPlaceholders ? `${PLACEHOLDER_RULE}\n` : ''}${styleRules}
+- You MUST respond with a JSON array containing exactly one object per input object, with the same 'id' and the shortened 'text'. Do not include 'maxLength'.
+- Your entire response must be only the JSON array, with no surrounding text, explanations, or markdown formatting.`;
+};
+
+/**
+ * Instruction for translating finished translations back into the source language, see
+ * backTranslateTexts. With auto-detection a few original lines show which language that is.
+ */
+export const buildBackTranslationInstruction = ({ sourceLanguage, targetLanguage }: TranslationOptions, sourceSample: string[] = []): string => {
+    const target = getTargetLanguage(targetLanguage);
+    const source = sourceLanguage === AUTO_DETECT ? undefined : getLanguage(sourceLanguage);
+    const sample = sourceSample.map(line => JSON.stringify(stripMarkup(line))).join(', ');
+    const into = source ? source.name : `the language of the original dialogue, which reads like: ${sample}`;
+
+    return `You are checking the quality of subtitle translations. Each object in the JSON array has an 'id' (number) and a 'text' (string) written in ${target.name}.
+- Translate each 'text' back into ${into}.
+- Translate literally: keep every piece of information, including anything that looks wrong, added or missing. Do not correct, complete or improve the text.
+- You MUST respond with a JSON array containing exactly one object per input object, with the same 'id' and the back-translated 'text'.
+- Your entire response must be only the JSON array, with no surrounding text, explanations, or markdown formatting.`;
+};
@@ -0,0 +1,39 @@
+import type { ProviderId, ProviderSettings, TranslationProvider } from "../types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { createOpenAiProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "./openAiService";
+import { createMockProvider } from "./mockService";
+
+export interface ProviderOption {
+    id: ProviderId;
+    label: string;
+    defaultModel: string;
+    defaultBaseUrl: string;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+    { id: 'gemini', label: 'Google Gemini', defaultModel: DEFAULT_GEMINI_MODEL, defaultBaseUrl: '' },
+    { id: 'openai-compatible', label: 'OpenAI-compatible (servidor local ou remoto)', defaultModel: DEFAULT_OPENAI_MODEL, defaultBaseUrl: DEFAULT_OPENAI_BASE_URL },
+    { id: 'mock', label: 'Simulação (sem rede)', defaultModel: 'mock', defaultBaseUrl: '' },
+];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    providerId: 'gemini',
+    model: DEFAULT_GEMINI_MODEL,
+    baseUrl: '',
+    apiKey: '',
+};
+
+export const getProviderOption = (id: ProviderId): ProviderOption =>
+    PROVIDER_OPTIONS.find(option => option.id === id) ?? PROVIDER_OPTIONS[0];
+
+export const createProvider = (settings: ProviderSettings): TranslationProvider => {
+    switch (settings.providerId) {
+        case 'openai-compatible':
+            return createOpenAiProvider({ baseUrl: settings.baseUrl, model: settings.model, apiKey: settings.apiKey });
+        case 'mock':
+            return createMockProvider();
+        case 'gemini':
+        default:
+            return createGeminiProvider({ model: settings.model, apiKey: settings.apiKey });
+    }
+};
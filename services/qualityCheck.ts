@@ -0,0 +1,68 @@
+import type { SubtitleBlock, TranslationOptions, TranslationProvider, UsageRecord } from "../types";
+import { chunkSubtitles } from "../utils/chunking";
+import { stripMarkup } from "../utils/formats/markup";
+import type { BackTranslation } from "../utils/quality";
+import { backTranslateTexts } from "./translationService";
+import { isAbortError } from "./errors";
+import type { RateLimiter } from "./rateLimiter";
+
+// Original lines shown to the model per request when the source language is auto-detected.
+const SOURCE_SAMPLE_SIZE = 3;
+
+interface BackTranslationPassOptions {
+    provider: TranslationProvider;
+    options: TranslationOptions;
+    signal?: AbortSignal;
+    rateLimiter?: RateLimiter;
+    onProgress?: (done: number, total: number) => void;
+    onUsage?: (record: UsageRecord) => void;
+}
+
+export interface BackTranslationFailure {
+    // Positions of the cues in the chunk that could not be back-translated.
+    positions: number[];
+    error: string;
+}
+
+interface BackTranslationPassResult {
+    // Keyed by cue position.
+    backTranslations: Map<number, BackTranslation>;
+    failures: BackTranslationFailure[];
+}
+
+/**
+ * Back-translates every non-empty translated cue, chunk by chunk, for checkQuality to
+ * compare with the original. A chunk that fails is reported and skipped, so the chunks
+ * already back-translated are kept.
+ */
+export const runBackTranslationPass = async (
+    sourceCues: SubtitleBlock[],
+    translatedCues: SubtitleBlock[],
+    { provider, options, signal, rateLimiter, onProgress, onUsage }: BackTranslationPassOptions,
+): Promise<BackTranslationPassResult> => {
+    const toCheck = translatedCues
+        .map((cue, position) => ({ ...cue, position }))
+        .filter(cue => stripMarkup(cue.text).trim() !== '' && stripMarkup(sourceCues[cue.position]?.text ?? '').trim() !== '');
+    const chunks = chunkSubtitles(toCheck, provider.capabilities);
+    const backTranslations = new Map<number, BackTranslation>();
+    const failures: BackTranslationFailure[] = [];
+    let done = 0;
+    onProgress?.(done, toCheck.length);
+    for (const chunk of chunks) {
+        const sourceSample = chunk
+            .map(cue => sourceCues[cue.position].text)
+            .sort((a, b) => b.length - a.length)
+            .slice(0, SOURCE_SAMPLE_SIZE);
+        try {
+            const results = await backTranslateTexts(chunk.map(cue => cue.text), provider, options, { sourceSample, signal, rateLimiter, onUsage });
+            chunk.forEach((cue, i) => backTranslations.set(cue.position, { translation: cue.text, text: results[i].trim() }));
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.error('Back-translation failed for a chunk; its cues are not checked:', e);
+            failures.push({ positions: chunk.map(cue => cue.position), error: e instanceof Error ? e.message : 'Ocorreu um erro desconhecido.' });
+        }
+        done += chunk.length;
+        onProgress?.(done, toCheck.length);
+    }
+    return { backTranslations, failures };
+};
@@ -0,0 +1,58 @@
+import { sleep } from "./errors";
+
+const WINDOW_MS = 60_000;
+
+export interface RateLimiter {
+    // Waits until a request of roughly `tokens` tokens fits in the per-minute budget.
+    acquire: (tokens: number, signal?: AbortSignal) => Promise<void>;
+    // Pauses every caller until `ms` from now, e.g. after a 429 response.
+    pause: (ms: number) => void;
+}
+
+interface RateLimiterOptions {
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+}
+
+/**
+ * Sliding one-minute window shared by all concurrent workers. A limit of 0 disables it.
+ * A single request larger than the token budget is still let through once the window is empty.
+ */
+export const createRateLimiter = ({ requestsPerMinute, tokensPerMinute }: RateLimiterOptions): RateLimiter => {
+    const entries: { at: number; tokens: number }[] = [];
+    let pausedUntil = 0;
+
+    const prune = (now: number) => {
+        while (entries.length > 0 && now - entries[0].at >= WINDOW_MS) {
+            entries.shift();
+        }
+    };
+
+    const acquire = async (tokens: number, signal?: AbortSignal): Promise<void> => {
+        for (;;) {
+            const now = Date.now();
+            if (pausedUntil > now) {
+                await sleep(pausedUntil - now, signal);
+                continue;
+            }
+            prune(now);
+            const usedTokens = entries.reduce((sum, entry) => sum + entry.tokens, 0);
+            const requestsOk = requestsPerMinute <= 0 || entries.length < requestsPerMinute;
+            const tokensOk = tokensPerMinute <= 0 || entries.length === 0 || usedTokens + tokens <= tokensPerMinute;
+            if (requestsOk && tokensOk) {
+                entries.push({ at: now, tokens });
+                return;
+            }
+            await sleep(entries[0].at + WINDOW_MS - now, signal);
+        }
+    };
+
+    const pause = (ms: number) => {
+        pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    };
+
+    return { acquire, pause };
+};
+
+// Rough heuristic shared with chunking: ~3.75 characters per token.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 3.75);
@@ -0,0 +1,195 @@
+import type { MemoryLookup, MemoryMatch, ProviderCapabilities, SchedulerSettings, SubtitleDocument, TranslationJob, TranslationJobChunk, TranslationOptions, TranslationProvider, UsageEstimate, UsageRecord } from "../types";
+import { chunkSubtitles, CONTEXT_CUES_PER_SIDE } from "../utils/chunking";
+import { estimateTranslationUsage, translateTexts } from "./translationService";
+import { createAbortError, isAbortError } from "./errors";
+import type { RateLimiter } from "./rateLimiter";
+
+// Conservative defaults that stay within the Gemini free tier.
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+    concurrency: 2,
+    requestsPerMinute: 10,
+    tokensPerMinute: 250_000,
+};
+
+interface CreateJobParams {
+    id: string;
+    fileName: string;
+    sourceHash: string;
+    document: SubtitleDocument;
+    options: TranslationOptions;
+    limits: ProviderCapabilities;
+    // Translation memory matches for the document's cues, see findMemoryMatches.
+    memory?: MemoryLookup;
+}
+
+// Keeps prompts short even when a chunk is full of near-repeats.
+const MAX_MEMORY_HINTS_PER_CHUNK = 10;
+
+interface RunJobOptions {
+    // Chunks to run, by index in job.chunks; defaults to every chunk not yet done.
+    chunkIndices?: number[];
+    concurrency?: number;
+    rateLimiter?: RateLimiter;
+    signal?: AbortSignal;
+    // Called before each chunk is sent, with its index in job.chunks.
+    onChunkStart?: (chunkIndex: number, job: TranslationJob) => void;
+    // Called when a chunk stops running, whatever the outcome.
+    onChunkEnd?: (chunkIndex: number) => void;
+    // Called with a new job object every time a chunk finishes or fails.
+    onUpdate?: (job: TranslationJob) => void | Promise<void>;
+    // Called after every request, as it is also recorded in the chunk's usage.
+    onUsage?: (record: UsageRecord) => void;
+}
+
+export const createTranslationJob = ({ id, fileName, sourceHash, document, options, limits, memory }: CreateJobParams): TranslationJob => {
+    // Cues without text are kept in the output but never sent to the model.
+    const translatable = document.cues
+        .map((cue, position) => ({ ...cue, position }))
+        .filter(cue => cue.text.trim() !== '');
+    // Cues found in the translation memory are not sent either, but still serve as context.
+    const chunks = chunkSubtitles(translatable.filter(cue => !memory?.exact.has(cue.position)), limits);
+    const indexOf = new Map(translatable.map((cue, i) => [cue.position, i]));
+    const getHints = (positions: number[]): MemoryMatch[] | undefined => {
+        const hints = positions.flatMap(position => memory?.fuzzy.get(position) ?? []).slice(0, MAX_MEMORY_HINTS_PER_CHUNK);
+        return hints.length > 0 ? hints : undefined;
+    };
+    const now = Date.now();
+    return {
+        id,
+        fileName,
+        sourceHash,
+        createdAt: now,
+        updatedAt: now,
+        document,
+        options,
+        chunks: chunks.map(chunk => {
+            const start = indexOf.get(chunk[0].position)!;
+            const end = indexOf.get(chunk[chunk.length - 1].position)! + 1;
+            const positions = chunk.map(cue => cue.position);
+            return {
+                positions,
+                contextBefore: translatable.slice(Math.max(0, start - CONTEXT_CUES_PER_SIDE), start).map(cue => cue.position),
+                contextAfter: translatable.slice(end, end + CONTEXT_CUES_PER_SIDE).map(cue => cue.position),
+                status: 'pending',
+                memoryHints: getHints(positions),
+            };
+        }),
+        memoryTranslations: memory && memory.exact.size > 0 ? Object.fromEntries(memory.exact) : undefined,
+    };
+};
+
+export const getJobProgress = (job: TranslationJob) => ({
+    total: job.chunks.length,
+    done: job.chunks.filter(chunk => chunk.status === 'done').length,
+    failed: job.chunks.filter(chunk => chunk.status === 'failed').length,
+});
+
+export const isJobComplete = (job: TranslationJob): boolean => job.chunks.every(chunk => chunk.status === 'done');
+
+/** Every request made for the job so far, chunk by chunk. */
+export const getJobUsage = (job: TranslationJob): UsageRecord[] => job.chunks.flatMap(chunk => chunk.usage ?? []);
+
+/**
+ * Tokens the unfinished chunks should use if every request succeeds first time. Chunks
+ * are sent exactly as runTranslationJob would send them, context and hints included.
+ */
+export const estimateJobUsage = (job: TranslationJob): UsageEstimate => {
+    const textsAt = (positions: number[] = []) => positions.map(position => job.document.cues[position].text);
+    return job.chunks
+        .filter(chunk => chunk.status !== 'done')
+        .map(chunk => estimateTranslationUsage(textsAt(chunk.positions), job.options, {
+            context: { before: textsAt(chunk.contextBefore), after: textsAt(chunk.contextAfter) },
+            memoryHints: chunk.memoryHints,
+        }))
+        .reduce<UsageEstimate>((total, usage) => ({
+            requests: total.requests + 1,
+            promptTokens: total.promptTokens + usage.promptTokens,
+            outputTokens: total.outputTokens + usage.outputTokens,
+            estimated: true,
+        }), { requests: 0, promptTokens: 0, outputTokens: 0, estimated: true });
+};
+
+/** The job's document with every finished chunk applied; untranslated cues keep their original text. */
+export const buildJobDocument = (job: TranslationJob): SubtitleDocument => {
+    const translations = new Map<number, string>(Object.entries(job.memoryTranslations ?? {}).map(([position, text]) => [Number(position), text]));
+    for (const chunk of job.chunks) {
+        if (chunk.status !== 'done' || !chunk.translations) continue;
+        chunk.positions.forEach((position, i) => translations.set(position, chunk.translations![i]));
+    }
+    return {
+        ...job.document,
+        cues: job.document.cues.map((cue, position) => ({ ...cue, text: translations.get(position) ?? cue.text })),
+    };
+};
+
+const updateChunk = (job: TranslationJob, chunkIndex: number, chunk: TranslationJobChunk): TranslationJob => ({
+    ...job,
+    updatedAt: Date.now(),
+    chunks: job.chunks.map((existing, i) => i === chunkIndex ? chunk : existing),
+});
+
+/**
+ * Translates the given chunks with up to `concurrency` requests in flight.
+ * When a chunk exhausts its retries it is marked as failed and reported through onUpdate;
+ * no new chunks are started, the running ones are allowed to finish, and the error is
+ * rethrown so the job can be resumed later. Cancelling through `signal` aborts the
+ * running requests, leaves their chunks pending and rejects with an AbortError.
+ */
+export const runTranslationJob = async (
+    job: TranslationJob,
+    provider: TranslationProvider,
+    { chunkIndices, concurrency = 1, rateLimiter, signal, onChunkStart, onChunkEnd, onUpdate, onUsage }: RunJobOptions = {},
+): Promise<TranslationJob> => {
+    const queue = chunkIndices ?? job.chunks.map((_, i) => i).filter(i => job.chunks[i].status !== 'done');
+    let current = job;
+    let firstError: unknown = null;
+
+    const worker = async () => {
+        while (queue.length > 0 && firstError === null && !signal?.aborted) {
+            const chunkIndex = queue.shift()!;
+            const chunk = current.chunks[chunkIndex];
+            onChunkStart?.(chunkIndex, current);
+            const textsAt = (positions: number[] = []) => positions.map(position => current.document.cues[position].text);
+            const context = { before: textsAt(chunk.contextBefore), after: textsAt(chunk.contextAfter) };
+            const records: UsageRecord[] = [];
+            const recordUsage = (record: UsageRecord) => {
+                const chunkRecord = { ...record, fileName: current.fileName, chunkIndex };
+                records.push(chunkRecord);
+                onUsage?.(chunkRecord);
+            };
+            // Earlier runs of the chunk stay in its usage, so retried chunks show their full cost.
+            const withUsage = () => [...(chunk.usage ?? []), ...records];
+            try {
+                const translations = await translateTexts(textsAt(chunk.positions), provider, current.options, { context, signal, rateLimiter, memoryHints: chunk.memoryHints, onUsage: recordUsage });
+                current = updateChunk(current, chunkIndex, { ...chunk, status: 'done', translations, error: undefined, usage: withUsage() });
+                await onUpdate?.(current);
+            } catch (e) {
+                if (isAbortError(e)) {
+                    // The chunk stays pending, but requests already paid for are kept in its usage.
+                    if (records.length > 0) {
+                        current = updateChunk(current, chunkIndex, { ...chunk, usage: withUsage() });
+                        await onUpdate?.(current);
+                    }
+                    continue;
+                }
+                const error = e instanceof Error ? e.message : 'Ocorreu um erro desconhecido.';
+                current = updateChunk(current, chunkIndex, { ...chunk, status: 'failed', error, usage: withUsage() });
+                await onUpdate?.(current);
+                firstError = firstError ?? e;
+            } finally {
+                onChunkEnd?.(chunkIndex);
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, queue.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+    if (firstError !== null) {
+        throw firstError;
+    }
+    return current;
+};
@@ -0,0 +1,164 @@
+import type { MemoryEntry, MemoryLookup, MemoryMatch, MemoryOrigin, SubtitleDocument, TranslationJob, TranslationOptions } from "../types";
+import { runRequest, runTransaction, STORE_MEMORY } from "./db";
+import { stripMarkup } from "../utils/formats/markup";
+import { protectMarkup } from "../utils/formats/placeholders";
+import { AUTO_DETECT, findLanguageByTag } from "../utils/languages";
+import { parseTmx, stringifyTmx } from "../utils/tmx";
+import { similarity, trigrams } from "../utils/similarity";
+
+// Below this similarity a remembered line is more likely to mislead than to help.
+const FUZZY_THRESHOLD = 0.75;
+// Very short lines ("Yes.", "Come on!") match everything and teach the model nothing.
+const MIN_FUZZY_LENGTH = 12;
+
+interface TranslationPair {
+    source: string;
+    target: string;
+}
+
+/** Markup and spacing do not change what a line says, so they are ignored when matching. */
+export const normalizeMemoryText = (text: string): string =>
+    stripMarkup(text).normalize('NFC').replace(/\s+/g, ' ').trim();
+
+export const getMemoryId = (text: string, targetLanguage: string): string => `${targetLanguage}:${normalizeMemoryText(text)}`;
+
+export const listMemory = (targetLanguage: string): Promise<MemoryEntry[]> =>
+    runRequest<MemoryEntry[]>(STORE_MEMORY, 'readonly', store => store.index('targetLanguage').getAll(targetLanguage));
+
+/**
+ * Stores translations for reuse. Reviewed and imported entries always replace what is
+ * there; raw model output only fills gaps or replaces earlier model output.
+ */
+export const rememberTranslations = (pairs: TranslationPair[], { sourceLanguage, targetLanguage }: TranslationOptions, origin: MemoryOrigin): Promise<void> => {
+    const updatedAt = Date.now();
+    return runTransaction(STORE_MEMORY, 'readwrite', store => {
+        pairs.forEach(({ source, target }) => {
+            const normalized = normalizeMemoryText(source);
+            // Lines the model left untranslated carry nothing worth remembering.
+            if (normalized === '' || target.trim() === '' || normalizeMemoryText(target) === normalized) return;
+            const entry: MemoryEntry = {
+                id: getMemoryId(source, targetLanguage),
+                source,
+                target,
+                sourceLanguage: sourceLanguage === AUTO_DETECT ? 'und' : sourceLanguage,
+                targetLanguage,
+                origin,
+                updatedAt,
+            };
+            if (origin !== 'translation') {
+                store.put(entry);
+                return;
+            }
+            const request = store.get(entry.id);
+            request.onsuccess = () => {
+                const existing = request.result as MemoryEntry | undefined;
+                if (!existing || existing.origin === 'translation') store.put(entry);
+            };
+        });
+    });
+};
+
+/** Adds every finished chunk of a job to the memory. */
+export const rememberJob = (job: TranslationJob): Promise<void> => {
+    const pairs = job.chunks.flatMap(chunk => chunk.status === 'done' && chunk.translations
+        ? chunk.positions.map((position, i) => ({ source: job.document.cues[position].text, target: chunk.translations![i] }))
+        : []);
+    return rememberTranslations(pairs, job.options, 'translation');
+};
+
+export const importMemory = (entries: MemoryEntry[]): Promise<void> =>
+    runTransaction(STORE_MEMORY, 'readwrite', store => entries.forEach(entry => store.put(entry)));
+
+export const clearMemory = (targetLanguage: string): Promise<void> =>
+    runTransaction(STORE_MEMORY, 'readwrite', store => {
+        const request = store.index('targetLanguage').openKeyCursor(IDBKeyRange.only(targetLanguage));
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (!cursor) return;
+            store.delete(cursor.primaryKey);
+            cursor.continue();
+        };
+    });
+
+// A remembered translation can be reused verbatim only if the markup it needs is the same:
+// either the source is identical, or it has no markup beyond tags wrapping the whole cue.
+const reuseExact = (text: string, entry: MemoryEntry): string | null => {
+    if (entry.source === text) return entry.target;
+    const { tokens, prefix, suffix } = protectMarkup(text);
+    return tokens.length > 0 ? null : prefix + stripMarkup(entry.target) + suffix;
+};
+
+export const findMemoryMatches = async (texts: string[], targetLanguage: string): Promise<MemoryLookup> => {
+    const entries = await listMemory(targetLanguage);
+    const byId = new Map(entries.map(entry => [entry.id, entry]));
+    const candidates = entries
+        .map(entry => ({ entry, normalized: normalizeMemoryText(entry.source) }))
+        .filter(({ normalized }) => normalized.length >= MIN_FUZZY_LENGTH)
+        .map(candidate => ({ ...candidate, grams: trigrams(candidate.normalized) }));
+    const exact = new Map<number, string>();
+    const fuzzy = new Map<number, MemoryMatch[]>();
+
+    texts.forEach((text, position) => {
+        const normalized = normalizeMemoryText(text);
+        if (normalized === '') return;
+        const entry = byId.get(getMemoryId(text, targetLanguage));
+        const reused = entry ? reuseExact(text, entry) : null;
+        if (reused !== null) {
+            exact.set(position, reused);
+            return;
+        }
+        if (normalized.length < MIN_FUZZY_LENGTH) return;
+        const grams = trigrams(normalized);
+        let best: MemoryMatch | null = null;
+        for (const candidate of candidates) {
+            // Dice can only reach the threshold when the lengths are close.
+            const ratio = candidate.normalized.length / normalized.length;
+            if (ratio < FUZZY_THRESHOLD || ratio > 1 / FUZZY_THRESHOLD) continue;
+            const score = similarity(grams, candidate.grams);
+            if (score >= FUZZY_THRESHOLD && (!best || score > best.score)) {
+                best = { source: candidate.entry.source, target: candidate.entry.target, score };
+            }
+        }
+        if (best) fuzzy.set(position, [best]);
+    });
+    return { exact, fuzzy };
+};
+
+/** Matches for a document's cues, or none when the memory cannot be read (e.g. private browsing). */
+export const lookupDocumentMemory = async (document: SubtitleDocument, targetLanguage: string): Promise<MemoryLookup> => {
+    try {
+        return await findMemoryMatches(document.cues.map(cue => cue.text), targetLanguage);
+    } catch (e) {
+        console.warn('Could not read the translation memory:', e);
+        return { exact: new Map(), fuzzy: new Map() };
+    }
+};
+
+/** Imports a TMX file; returns how many pairs were added for languages this app knows. */
+export const importTmx = async (content: string): Promise<number> => {
+    const updatedAt = Date.now();
+    const entries = parseTmx(content).flatMap(unit => {
+        const target = findLanguageByTag(unit.targetLanguage);
+        if (!target || normalizeMemoryText(unit.source) === '') return [];
+        const entry: MemoryEntry = {
+            id: getMemoryId(unit.source, target.code),
+            source: unit.source,
+            target: unit.target,
+            sourceLanguage: findLanguageByTag(unit.sourceLanguage)?.code ?? unit.sourceLanguage,
+            targetLanguage: target.code,
+            origin: 'import',
+            updatedAt,
+        };
+        return [entry];
+    });
+    await importMemory(entries);
+    return entries.length;
+};
+
+export const exportTmx = async (targetLanguage: string): Promise<string> =>
+    stringifyTmx((await listMemory(targetLanguage)).map(entry => ({
+        source: entry.source,
+        target: entry.target,
+        sourceLanguage: entry.sourceLanguage,
+        targetLanguage: entry.targetLanguage,
+    })));
@@ -0,0 +1,333 @@
+import type { MemoryMatch, TokenUsage, TranslationContext, TranslationItem, TranslationOptions, TranslationProvider, UsageKind, UsageOutcome, UsageRecord } from "../types";
+import { buildBackTranslationInstruction, buildCondenseInstruction, buildSystemInstruction } from "./promptBuilder";
+import { findRelevantEntries } from "../utils/glossary";
+import { fallbackMarkup, protectMarkup, restoreMarkup } from "../utils/formats/placeholders";
+import type { ProtectedText } from "../utils/formats/placeholders";
+import { stripMarkup } from "../utils/formats/markup";
+import { findSdhElements } from "../utils/sdh";
+import { isAbortError, isRateLimitError, sleep } from "./errors";
+import { estimateTokens } from "./rateLimiter";
+import type { RateLimiter } from "./rateLimiter";
+
+const MAX_RETRIES = 3;
+// 429 responses say nothing about the request itself, so they get their own, larger allowance.
+const MAX_RATE_LIMIT_RETRIES = 6;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+interface TranslateCallOptions {
+    context?: TranslationContext;
+    // Similar lines translated before, offered to the model as wording hints.
+    memoryHints?: MemoryMatch[];
+    signal?: AbortSignal;
+    // Shared across concurrent calls; every attempt, including retries, counts against it.
+    rateLimiter?: RateLimiter;
+    // Called after every request, including retries and failed ones.
+    onUsage?: (record: UsageRecord) => void;
+}
+
+type RequestOptions = Pick<TranslateCallOptions, 'signal' | 'rateLimiter' | 'onUsage'>;
+
+// Exponential backoff with jitter, so concurrent workers do not retry in lockstep.
+const getBackoffDelay = (attempt: number): number => {
+    const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (attempt - 1));
+    return delay / 2 + Math.random() * (delay / 2);
+};
+
+interface ResponseItem {
+    id: number;
+    text: string;
+}
+
+const isResponseItem = (value: unknown): value is ResponseItem =>
+    typeof value === 'object' && value !== null
+    && typeof (value as { id?: unknown }).id === 'number' && typeof (value as { text?: unknown }).text === 'string';
+
+// Providers without schema enforcement often wrap the array in a markdown fence or add a preamble.
+const extractJsonArray = (raw: string): string => {
+    const unfenced = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const start = unfenced.indexOf('[');
+    const end = unfenced.lastIndexOf(']');
+    return start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+};
+
+interface CondenseItem {
+    text: string;
+    // Longest acceptable result, in characters not counting line breaks.
+    maxLength: number;
+}
+
+// Puts the markup back into each result, falling back to a safe version where the placeholders were mangled.
+const restoreAll = (results: string[], protectedTexts: ProtectedText[]): string[] =>
+    results.map((result, i) => restoreMarkup(result, protectedTexts[i]) ?? fallbackMarkup(result, protectedTexts[i]));
+
+const placeholdersIntact = (protectedTexts: ProtectedText[]) => (results: string[]): boolean =>
+    results.every((result, i) => restoreMarkup(result, protectedTexts[i]) !== null);
+
+// Sends one request and validates the response, retrying on malformed or incomplete answers.
+// Items with `context` are sent but must not come back; the others are returned in order.
+// `isAcceptable` can reject a well-formed response; it is retried, but accepted on the last attempt.
+// Every request is reported through onUsage once it ends, whatever the outcome.
+const requestWithRetries = async (
+    requestItems: TranslationItem[],
+    systemInstruction: string,
+    provider: TranslationProvider,
+    kind: UsageKind,
+    { signal, rateLimiter, onUsage }: RequestOptions,
+    isAcceptable?: (results: string[]) => boolean,
+): Promise<string[]> => {
+    const textsWithIds = requestItems.filter(item => !item.context);
+    const texts = textsWithIds.map(item => item.text);
+    const contextIds = new Set(requestItems.filter(item => item.context).map(item => item.id));
+    const estimatedTokens = estimateTokens(systemInstruction) + estimateTokens(JSON.stringify(requestItems)) + estimateTokens(JSON.stringify(textsWithIds));
+    const waitBeforeRetry = (attempt: number) => attempt < MAX_RETRIES ? sleep(getBackoffDelay(attempt), signal) : Promise.resolve();
+    let lastError: Error | null = null;
+    let attempt = 0;
+    let rateLimitRetries = 0;
+    let requestCount = 0;
+
+    while (attempt < MAX_RETRIES) {
+        attempt++;
+        let sentAt: number | null = null;
+        let usage: TokenUsage | undefined;
+        // Stays 'invalid' unless the response is accepted or the request itself fails.
+        let outcome: UsageOutcome | null = 'invalid';
+        try {
+            await rateLimiter?.acquire(estimatedTokens, signal);
+            requestCount++;
+            sentAt = Date.now();
+            const response = await provider.translateBatch(requestItems, systemInstruction, signal);
+            const rawResponse = response.text;
+            usage = response.usage ?? {
+                promptTokens: estimateTokens(systemInstruction) + estimateTokens(JSON.stringify(requestItems)),
+                outputTokens: estimateTokens(rawResponse),
+                estimated: true,
+            };
+
+            const jsonStr = provider.capabilities.structuredOutput ? rawResponse.trim() : extractJsonArray(rawResponse);
+            let parsedResponse: unknown;
+            try {
+                parsedResponse = JSON.parse(jsonStr);
+            } catch (parseError) {
+                console.error(`Attempt ${attempt}: Failed to parse ${provider.label} response as JSON:`, jsonStr);
+                lastError = new Error("Received an invalid JSON response from the translation service.");
+                await waitBeforeRetry(attempt);
+                continue; // Retry
+            }
+
+            if (!Array.isArray(parsedResponse)) {
+                 console.error(`Attempt ${attempt}: Invalid API response: Not an array.`, parsedResponse);
+                 lastError = new Error("The translation service returned data in an unexpected format (not an array).");
+                 await waitBeforeRetry(attempt);
+                 continue; // Retry
+            }
+            let responseItems: unknown[] = parsedResponse;
+
+            // Context lines echoed back by the model are not an error, just noise.
+            if (contextIds.size > 0) {
+                const withoutContext = responseItems.filter(item => !(isResponseItem(item) && contextIds.has(item.id)));
+                if (withoutContext.length !== responseItems.length) {
+                    console.warn(`Attempt ${attempt}: Ignoring ${responseItems.length - withoutContext.length} context lines echoed back by the model.`);
+                }
+                responseItems = withoutContext;
+            }
+
+            if (responseItems.length !== texts.length) {
+                console.warn(`Attempt ${attempt}: Mismatch in translated items. Expected ${texts.length}, got ${responseItems.length}. Retrying...`);
+                lastError = new Error(`The translation service returned an incomplete list. Expected ${texts.length} items, but received ${responseItems.length}.`);
+                await waitBeforeRetry(attempt);
+                continue; // Retry
+            }
+
+            const translationsMap = new Map<number, string>();
+            for (const item of responseItems.filter(isResponseItem)) {
+                translationsMap.set(item.id, item.text);
+            }
+
+            if (translationsMap.size !== texts.length) {
+                 console.warn(`Attempt ${attempt}: Mismatch in translated IDs. Expected ${texts.length} unique IDs, but found ${translationsMap.size}. Retrying...`);
+                 lastError = new Error(`The translation service response was missing some required translation IDs.`);
+                 await waitBeforeRetry(attempt);
+                 continue; // Retry
+            }
+
+            // Check if the translation actually happened or just returned the original text.
+            const unchangedCount = textsWithIds.reduce((count, originalItem) => {
+                const translatedText = translationsMap.get(originalItem.id);
+                if (translatedText && originalItem.text.trim() === translatedText.trim()) {
+                    return count + 1;
+                }
+                return count;
+            }, 0);
+
+            // Only a translation must differ: a line that cannot be made shorter, or one that reads
+            // the same in both languages (names, numbers, "OK"), legitimately comes back as it was.
+            if (kind === 'translation' && unchangedCount === texts.length && texts.length > 0) {
+                console.warn(`Attempt ${attempt}: Translation returned original text for all items in the chunk. Retrying...`);
+                lastError = new Error(`The translation service returned the original text without translating it.`);
+                await waitBeforeRetry(attempt);
+                continue; // Retry
+            }
+
+            const finalTranslations = textsWithIds.map(originalItem =>
+                translationsMap.get(originalItem.id) ?? originalItem.text
+            );
+
+            if (isAcceptable && attempt < MAX_RETRIES && !isAcceptable(finalTranslations)) {
+                console.warn(`Attempt ${attempt}: Formatting placeholders were dropped or moved. Retrying...`);
+                lastError = new Error(`The translation service did not keep the formatting placeholders.`);
+                await waitBeforeRetry(attempt);
+                continue; // Retry
+            }
+
+            outcome = 'ok';
+            return finalTranslations; // Success!
+
+        } catch (error) {
+            if (isAbortError(error)) {
+                // A response that came back before the cancel (then waiting to be retried) was paid for.
+                if (usage === undefined) outcome = null;
+                throw error;
+            }
+            outcome = isRateLimitError(error) ? 'rate-limited' : 'failed';
+            lastError = error instanceof Error ? error : new Error("An unknown error occurred during translation.");
+            if (isRateLimitError(error) && rateLimitRetries < MAX_RATE_LIMIT_RETRIES) {
+                rateLimitRetries++;
+                attempt--; // Rate limiting does not count as a failed attempt.
+                const delay = error.retryAfterMs ?? getBackoffDelay(rateLimitRetries + 1);
+                console.warn(`${provider.label} rate limit hit, waiting ${Math.round(delay / 1000)}s before retrying...`);
+                // Pause every worker sharing the limiter, not just this one.
+                rateLimiter?.pause(delay);
+                await sleep(delay, signal);
+                continue;
+            }
+            console.error(`Error during ${provider.label} API call on attempt ${attempt}:`, error);
+            if (attempt === MAX_RETRIES) {
+                break; // Don't wait on the last attempt
+            }
+            await sleep(getBackoffDelay(attempt), signal); // Exponential backoff
+        } finally {
+            // Nothing to report when cancelled, or when the rate limiter never let the request out.
+            if (outcome && sentAt !== null) {
+                onUsage?.({
+                    timestamp: sentAt,
+                    kind,
+                    providerId: provider.id,
+                    model: provider.model,
+                    request: requestCount,
+                    outcome,
+                    promptTokens: usage?.promptTokens ?? 0,
+                    outputTokens: usage?.outputTokens ?? 0,
+                    estimated: usage?.estimated,
+                });
+            }
+        }
+    }
+
+    // If all retries failed, throw a comprehensive error.
+    let errorMessage = "Failed to translate a chunk of subtitles after multiple attempts.";
+    if (lastError) {
+        errorMessage += ` Last known error: ${lastError.message}`;
+    }
+    throw new Error(errorMessage);
+};
+
+// The request translateTexts sends for `texts`; estimateTranslationUsage builds the same one.
+const buildTranslationRequest = (texts: string[], options: TranslationOptions, { context, memoryHints }: Pick<TranslateCallOptions, 'context' | 'memoryHints'>) => {
+    // Tags and speaker dashes travel as placeholders the model is asked to keep in place.
+    const protectedTexts = texts.map(protectMarkup);
+    const textsWithIds: TranslationItem[] = protectedTexts.map(({ text }, index) => ({ id: index, text }));
+    // Context lines get ids outside 0..n-1 (negative before, n and up after) so they can never
+    // be mistaken for a translation; if the model echoes them anyway they are dropped.
+    const contextBefore = (context?.before ?? []).map(stripMarkup);
+    const contextAfter = (context?.after ?? []).map(stripMarkup);
+    const requestItems: TranslationItem[] = [
+        ...contextBefore.map((text, i) => ({ id: i - contextBefore.length, text, context: true })),
+        ...textsWithIds,
+        ...contextAfter.map((text, i) => ({ id: texts.length + i, text, context: true })),
+    ];
+    const glossary = findRelevantEntries(options.glossary ?? [], requestItems.map(item => item.text));
+    const systemInstruction = buildSystemInstruction(options, {
+        hasContext: requestItems.length > texts.length,
+        hasPlaceholders: protectedTexts.some(({ tokens }) => tokens.length > 0),
+        // Stripped jobs can still have a stray annotation; the convention is for jobs that keep them.
+        hasSdh: options.sdh !== 'strip' && texts.some(text => findSdhElements(text).length > 0),
+        glossary,
+        memoryHints,
+    });
+    return { protectedTexts, textsWithIds, requestItems, systemInstruction };
+};
+
+export const translateTexts = async (
+    texts: string[],
+    provider: TranslationProvider,
+    options: TranslationOptions,
+    { context, memoryHints, signal, rateLimiter, onUsage }: TranslateCallOptions = {},
+): Promise<string[]> => {
+    if (!texts || texts.length === 0) {
+        return [];
+    }
+
+    const { protectedTexts, requestItems, systemInstruction } = buildTranslationRequest(texts, options, { context, memoryHints });
+    const results = await requestWithRetries(requestItems, systemInstruction, provider, 'translation', { signal, rateLimiter, onUsage }, placeholdersIntact(protectedTexts));
+    return restoreAll(results, protectedTexts);
+};
+
+/**
+ * Tokens a single successful translateTexts call would use, from the length of the prompt
+ * it would send; the answer is assumed to be as long as the lines it translates.
+ */
+export const estimateTranslationUsage = (
+    texts: string[],
+    options: TranslationOptions,
+    callOptions: Pick<TranslateCallOptions, 'context' | 'memoryHints'> = {},
+): TokenUsage => {
+    if (texts.length === 0) {
+        return { promptTokens: 0, outputTokens: 0, estimated: true };
+    }
+    const { textsWithIds, requestItems, systemInstruction } = buildTranslationRequest(texts, options, callOptions);
+    return {
+        promptTokens: estimateTokens(systemInstruction) + estimateTokens(JSON.stringify(requestItems)),
+        outputTokens: estimateTokens(JSON.stringify(textsWithIds)),
+        estimated: true,
+    };
+};
+
+/**
+ * Asks the model to shorten already translated lines to fit a reading-speed or
+ * line-length budget, keeping their meaning. Same response contract and retries as translateTexts.
+ */
+export const condenseTexts = async (
+    items: CondenseItem[],
+    provider: TranslationProvider,
+    options: TranslationOptions,
+    { signal, rateLimiter, onUsage }: RequestOptions = {},
+): Promise<string[]> => {
+    if (items.length === 0) {
+        return [];
+    }
+    const protectedTexts = items.map(({ text }) => protectMarkup(text));
+    const requestItems: TranslationItem[] = items.map(({ maxLength }, index) => ({ id: index, text: protectedTexts[index].text, maxLength }));
+    const systemInstruction = buildCondenseInstruction(options, { hasPlaceholders: protectedTexts.some(({ tokens }) => tokens.length > 0) });
+    const results = await requestWithRetries(requestItems, systemInstruction, provider, 'condense', { signal, rateLimiter, onUsage }, placeholdersIntact(protectedTexts));
+    return restoreAll(results, protectedTexts);
+};
+
+/**
+ * Translates finished translations literally back into the source language for quality
+ * checks. Markup is irrelevant here, so it is stripped rather than protected.
+ * `sourceSample` shows the model the original language when it is auto-detected.
+ */
+export const backTranslateTexts = async (
+    texts: string[],
+    provider: TranslationProvider,
+    options: TranslationOptions,
+    { sourceSample, signal, rateLimiter, onUsage }: RequestOptions & { sourceSample?: string[] } = {},
+): Promise<string[]> => {
+    if (texts.length === 0) {
+        return [];
+    }
+    const requestItems: TranslationItem[] = texts.map((text, index) => ({ id: index, text: stripMarkup(text) }));
+    const systemInstruction = buildBackTranslationInstruction(options, sourceSample);
+    return requestWithRetries(requestItems, systemInstruction, provider, 'back-translation', { signal, rateLimiter, onUsage });
+};
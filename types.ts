@@ -1,6 +1,353 @@
-
 export interface SubtitleBlock {
   index: string;
   time: string;
   text: string;
 }
+
+export interface TranslationItem {
+  id: number;
+  text: string;
+  // Neighbouring line sent for context only; the model must not return it.
+  context?: boolean;
+  // Condensing only: the longest the returned text may be, not counting line breaks.
+  maxLength?: number;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface ProviderCapabilities {
+  // Whether the backend can enforce the JSON response schema itself.
+  structuredOutput: boolean;
+  requiresApiKey: boolean;
+  requiresBaseUrl: boolean;
+  maxItemsPerRequest: number;
+  maxCharactersPerRequest: number;
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  // Includes reasoning ("thinking") tokens, which are billed as output.
+  outputTokens: number;
+  // Counted from the text length because the provider did not report usage.
+  estimated?: boolean;
+}
+
+export interface UsageEstimate extends TokenUsage {
+  requests: number;
+}
+
+export interface ProviderResponse {
+  // Raw model output, expected to be a JSON array of TranslationItem.
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface TranslationProvider {
+  id: ProviderId;
+  label: string;
+  model: string;
+  capabilities: ProviderCapabilities;
+  // Sends one batch to the backend and returns the raw model output with the token usage
+  // the backend reported, if any. Validation is done by the caller.
+  // Failed requests reject with a TranslationServiceError (status, Retry-After).
+  translateBatch: (items: TranslationItem[], systemInstruction: string, signal?: AbortSignal) => Promise<ProviderResponse>;
+}
+
+export type UsageKind = 'translation' | 'condense' | 'back-translation';
+
+// 'invalid' responses were billed but rejected by validation and retried.
+export type UsageOutcome = 'ok' | 'invalid' | 'failed' | 'rate-limited';
+
+export interface UsageRecord extends TokenUsage {
+  timestamp: number;
+  kind: UsageKind;
+  providerId: ProviderId;
+  model: string;
+  // 1 for the first request of a call; anything higher is a retry.
+  request: number;
+  outcome: UsageOutcome;
+  fileName?: string;
+  chunkIndex?: number;
+}
+
+export interface ModelPrice {
+  // Matched against the provider's model name, ignoring case.
+  model: string;
+  // US dollars per million tokens.
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface SchedulerSettings {
+  // Number of chunks translated in parallel.
+  concurrency: number;
+  // Per-minute budgets shared by all parallel requests; 0 disables the limit.
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export interface GlossaryEntry {
+  source: string;
+  // Required rendering in the target language; equal to source for names kept as-is.
+  // Empty means "translate consistently" without imposing a form.
+  target: string;
+  note?: string;
+  caseSensitive?: boolean;
+}
+
+export interface TranslationOptions {
+  // BCP 47 code, or 'auto' to let the model detect the source language.
+  sourceLanguage: string;
+  targetLanguage: string;
+  glossary?: GlossaryEntry[];
+  // Style profile chosen for the job; the default profile when absent.
+  style?: StyleProfile;
+  // What to do with hearing-impaired annotations; 'translate' when absent.
+  sdh?: SdhMode;
+}
+
+// Annotations for deaf and hard-of-hearing viewers (SDH): [door slams], (SIGHS), ♪, JOHN:.
+export type SdhElementKind = 'sound' | 'music' | 'speaker';
+
+// 'translate' keeps the annotations under one convention; 'strip' removes them for a plain subtitle.
+export type SdhMode = 'translate' | 'strip';
+
+export interface SdhElement {
+  kind: SdhElementKind;
+  // As it appears in the cue, without markup.
+  text: string;
+}
+
+// Neighbouring source lines sent alongside a translation request; never translated themselves.
+export interface TranslationContext {
+  before: string[];
+  after: string[];
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'sbv';
+
+export interface VttCueMetadata {
+  identifier?: string;
+  // Cue settings after the timing, e.g. "align:start position:10%".
+  settings?: string;
+  // NOTE, STYLE and REGION blocks that precede this cue, verbatim.
+  leadingBlocks?: string[];
+}
+
+export interface AssCueMetadata {
+  // Every Dialogue field except Start, End and Text, keyed by the [Events] Format names.
+  fields: Record<string, string>;
+  // Comment: and other non-Dialogue event lines that precede this cue, verbatim.
+  leadingLines?: string[];
+}
+
+// A cue in any supported format. `time` is always normalised to the SRT
+// "00:00:01,000 --> 00:00:02,000" form; format-specific data lives in the optional fields.
+export interface SubtitleCue extends SubtitleBlock {
+  // 1-based line of the timing line in the source file, when the parser tracks it.
+  sourceLine?: number;
+  vtt?: VttCueMetadata;
+  ass?: AssCueMetadata;
+}
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  cues: SubtitleCue[];
+  vtt?: {
+    header: string;
+    trailingBlocks: string[];
+  };
+  ass?: {
+    // Everything before [Events] ([Script Info], [V4+ Styles], [Fonts]...), verbatim.
+    header: string;
+    eventFormat: string[];
+    // Event lines after the last Dialogue and any sections after [Events], verbatim.
+    trailingLines: string[];
+  };
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'bom'
+  | 'line-endings'
+  | 'missing-index'
+  | 'out-of-order-index'
+  | 'malformed-arrow'
+  | 'dot-milliseconds'
+  | 'extra-blank-lines'
+  | 'empty-text'
+  | 'unparsed-lines'
+  | 'invalid-timing'
+  | 'negative-duration'
+  | 'zero-duration'
+  | 'overlap';
+
+export interface SubtitleDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  // 1-based line in the source file, when known.
+  line?: number;
+  // Position of the affected cue in SubtitleDocument.cues.
+  cuePosition?: number;
+}
+
+export type SubtitleFix = 'renumber' | 'fix-timings' | 'remove-empty';
+
+export type ChunkStatus = 'pending' | 'done' | 'failed';
+
+export interface TranslationJobChunk {
+  // Positions of the chunk's cues in TranslationJob.document.cues.
+  positions: number[];
+  // Positions of the read-only neighbouring cues sent with the chunk.
+  contextBefore?: number[];
+  contextAfter?: number[];
+  status: ChunkStatus;
+  translations?: string[];
+  error?: string;
+  // Similar lines found in the translation memory, sent with the chunk as hints.
+  memoryHints?: MemoryMatch[];
+  // Every request made for the chunk, across runs, including retries and failures.
+  usage?: UsageRecord[];
+}
+
+export interface TranslationJob {
+  // Source hash plus target language, see getJobId.
+  id: string;
+  fileName: string;
+  sourceHash: string;
+  createdAt: number;
+  updatedAt: number;
+  // The parsed document with the accepted fixes applied.
+  document: SubtitleDocument;
+  options: TranslationOptions;
+  chunks: TranslationJobChunk[];
+  // Cues found verbatim in the translation memory, by position; they are never sent to the model.
+  memoryTranslations?: Record<number, string>;
+}
+
+export type MemoryOrigin = 'translation' | 'review' | 'import';
+
+export interface MemoryEntry {
+  // Target language plus normalised source text, see getMemoryId.
+  id: string;
+  source: string;
+  target: string;
+  // 'und' when the source language was detected automatically.
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Reviewed and imported translations are never overwritten by raw model output.
+  origin: MemoryOrigin;
+  updatedAt: number;
+}
+
+export interface MemoryMatch {
+  source: string;
+  target: string;
+  // Similarity between 0 and 1.
+  score: number;
+}
+
+export interface MemoryLookup {
+  // Translations to reuse as they are, by cue position.
+  exact: Map<number, string>;
+  // Close but not identical lines, by cue position.
+  fuzzy: Map<number, MemoryMatch[]>;
+}
+
+export type BatchFileStatus = 'pending' | 'translating' | 'partial' | 'done' | 'failed';
+
+export interface BatchFile {
+  // Unique within the batch, so two copies of the same file are still listed separately.
+  id: string;
+  fileName: string;
+  sourceHash: string;
+  // The parsed document with the default fixes applied.
+  document: SubtitleDocument;
+  diagnostics: SubtitleDiagnostic[];
+}
+
+export interface ConformanceProfile {
+  maxCharsPerLine: number;
+  maxLines: number;
+  // Reading speed in characters per second, counting spaces but not line breaks.
+  maxCps: number;
+  minDurationMs: number;
+}
+
+export type ConformanceIssueCode = 'line-length' | 'line-count' | 'reading-speed' | 'min-duration';
+
+export interface ConformanceIssue {
+  code: ConformanceIssueCode;
+  message: string;
+}
+
+export interface ConformanceChange {
+  // Position in the translated document's cues.
+  position: number;
+  // 'not-condensed': the model failed or did not make the cue shorter; the cue keeps its
+  // text, re-wrapped if a 'rewrapped' change is listed for it too.
+  kind: 'rewrapped' | 'condensed' | 'not-condensed';
+  before: string;
+  after: string;
+}
+
+// A cue's `time` string parsed into milliseconds; `time` stays the stored form.
+export interface CueTiming {
+  start: number;
+  end: number;
+  // Whatever followed the end timestamp (SRT coordinates), kept as-is.
+  settings?: string;
+}
+
+// A time in the file (`from`) and where it should be (`to`), in milliseconds.
+export interface TimingAnchor {
+  from: number;
+  to: number;
+}
+
+export type TimingOperation =
+  | { kind: 'shift'; offsetMs: number }
+  | { kind: 'stretch'; anchors: [TimingAnchor, TimingAnchor] }
+  | { kind: 'framerate'; fromFps: number; toFps: number }
+  | { kind: 'reference'; cues: SubtitleBlock[] };
+
+export interface TimingChange {
+  position: number;
+  before: CueTiming;
+  after: CueTiming;
+}
+
+export type QualityIssueCode = 'empty' | 'untranslated' | 'length-ratio' | 'numbers' | 'source-words' | 'back-translation';
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  message: string;
+}
+
+// 'natural' follows the relationship between the characters, as the original does.
+export type Formality = 'natural' | 'informal' | 'formal';
+export type ProfanityPolicy = 'soften' | 'faithful' | 'remove';
+export type Register = 'natural' | 'colloquial' | 'standard' | 'literary';
+export type Audience = 'general' | 'children' | 'adult';
+
+export interface StyleProfile {
+  id: string;
+  name: string;
+  register: Register;
+  formality: Formality;
+  profanity: ProfanityPolicy;
+  audience: Audience;
+  // Free-form instructions from the client, added to the prompt as written.
+  notes: string;
+  // Guidance part of the prompt, with {{variables}}; the JSON output rules are always appended.
+  promptTemplate: string;
+}
@@ -0,0 +1,74 @@
+import type { ProviderCapabilities, SubtitleBlock } from "../types";
+import { parseTimeRange } from "./formats/time";
+
+// A silence this long between two cues is treated as a scene change.
+const SCENE_GAP_MS = 4000;
+// Never cut a chunk below this share of the character limit just to land on a nicer boundary.
+const MIN_CHUNK_FILL = 0.5;
+// Read-only neighbouring cues sent on each side of a chunk.
+export const CONTEXT_CUES_PER_SIDE = 3;
+
+const SENTENCE_END_PATTERN = /[.!?…♪»"”')\]]\s*$/;
+
+/**
+ * How good a place the boundary after `current` is to end a chunk:
+ * 2 for a scene break, 1 for the end of a sentence, 0 for mid-sentence.
+ */
+const scoreBoundary = (current: SubtitleBlock, next: SubtitleBlock | undefined): number => {
+    if (!next) return 2;
+    const currentRange = parseTimeRange(current.time);
+    const nextRange = parseTimeRange(next.time);
+    if (currentRange && nextRange && nextRange.start - currentRange.end >= SCENE_GAP_MS) return 2;
+    // A line ending in "..." or a comma usually continues in the next cue.
+    const text = current.text.trim();
+    if (SENTENCE_END_PATTERN.test(text) && !/(\.\.\.|…|,)\s*$/.test(text)) return 1;
+    return 0;
+};
+
+/**
+ * Splits cues into chunks that respect the provider's limits. When a chunk is full it is
+ * cut at the best boundary in its second half (scene break, then sentence end) rather than
+ * right before the cue that overflows, so sentences spanning two cues stay together.
+ */
+export const chunkSubtitles = <T extends SubtitleBlock>(subtitles: T[], limits: ProviderCapabilities): T[][] => {
+    const chunks: T[][] = [];
+    let currentChunk: T[] = [];
+    let currentChunkCharCount = 0;
+
+    const cutChunk = (nextIndex: number) => {
+        let bestCut = currentChunk.length;
+        let bestScore = -1;
+        let chars = 0;
+        currentChunk.forEach((subtitle, i) => {
+            chars += subtitle.text.length;
+            if (chars < limits.maxCharactersPerRequest * MIN_CHUNK_FILL && i < currentChunk.length - 1) return;
+            const next = i < currentChunk.length - 1 ? currentChunk[i + 1] : subtitles[nextIndex];
+            const score = scoreBoundary(subtitle, next);
+            if (score >= bestScore) {
+                bestScore = score;
+                bestCut = i + 1;
+            }
+        });
+        chunks.push(currentChunk.slice(0, bestCut));
+        currentChunk = currentChunk.slice(bestCut);
+        currentChunkCharCount = currentChunk.reduce((sum, subtitle) => sum + subtitle.text.length, 0);
+    };
+
+    subtitles.forEach((subtitle, index) => {
+        const subtitleCharCount = subtitle.text.length;
+        const exceedsLimits = () => currentChunkCharCount + subtitleCharCount > limits.maxCharactersPerRequest
+            || currentChunk.length >= limits.maxItemsPerRequest;
+        // The carried-over tail of a cut chunk can itself still be too large.
+        while (currentChunk.length > 0 && exceedsLimits()) {
+            cutChunk(index);
+        }
+        currentChunk.push(subtitle);
+        currentChunkCharCount += subtitleCharCount;
+    });
+
+    if (currentChunk.length > 0) {
+        chunks.push(currentChunk);
+    }
+
+    return chunks;
+};
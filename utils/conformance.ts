@@ -0,0 +1,142 @@
+import type { ConformanceIssue, ConformanceProfile, SubtitleBlock } from "../types";
+import { parseTimeRange } from "./formats/time";
+import { stripMarkup } from "./formats/markup";
+
+export interface ConformancePreset {
+    id: string;
+    label: string;
+    profile: ConformanceProfile;
+}
+
+// The Netflix presets follow its public timed text style guides for Portuguese.
+export const CONFORMANCE_PRESETS: ConformancePreset[] = [
+    { id: 'netflix-adult', label: 'Netflix pt-PT / pt-BR (adultos)', profile: { maxCharsPerLine: 42, maxLines: 2, maxCps: 17, minDurationMs: 833 } },
+    { id: 'netflix-children', label: 'Netflix pt-PT / pt-BR (infantil)', profile: { maxCharsPerLine: 42, maxLines: 2, maxCps: 13, minDurationMs: 833 } },
+    { id: 'broadcast', label: 'Televisão (37 caracteres)', profile: { maxCharsPerLine: 37, maxLines: 2, maxCps: 15, minDurationMs: 1000 } },
+];
+
+export const DEFAULT_CONFORMANCE_PROFILE: ConformanceProfile = CONFORMANCE_PRESETS[0].profile;
+
+// A line is best broken before these words (conjunctions, relative pronouns)...
+const BREAK_BEFORE_WORDS = new Set([
+    'e', 'ou', 'mas', 'que', 'porque', 'pois', 'quando', 'se', 'como', 'onde', 'embora', 'enquanto',
+    'y', 'pero', 'cuando', 'donde', 'et', 'quand', 'parce', 'ma', 'perché', 'und', 'aber', 'weil', 'wenn',
+    'and', 'or', 'but', 'because', 'when', 'if', 'that', 'which', 'who', 'while',
+]);
+// ...and never right after articles and short prepositions, which belong with the next word.
+const NO_BREAK_AFTER_WORDS = new Set([
+    'o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas', 'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'nos', 'nas', 'ao', 'à', 'pelo', 'pela',
+    'el', 'la', 'los', 'las', 'un', 'una', 'del', 'al', 'le', 'les', 'une', 'des', 'du', 'il', 'lo', 'gli', 'der', 'die', 'das', 'ein', 'eine',
+    'the', 'an', 'of', 'to', 'my', 'your', 'his', 'her', 'our', 'their', 'meu', 'minha', 'teu', 'tua', 'seu', 'sua',
+]);
+const DIALOGUE_LINE_PATTERN = /^\s*(?:<[^>]+>|\{[^}]*\})*\s*[-–—]/;
+
+/** Length as the viewer sees it: markup removed, line breaks not counted. */
+export const getDisplayLength = (text: string): number => stripMarkup(text).replace(/\n/g, '').length;
+
+const getDurationMs = (cue: SubtitleBlock): number | null => {
+    const range = parseTimeRange(cue.time);
+    return range ? range.end - range.start : null;
+};
+
+/** The most characters the cue can hold under the profile, given its duration. */
+export const getMaxLength = (cue: SubtitleBlock, profile: ConformanceProfile): number => {
+    const byLayout = profile.maxCharsPerLine * profile.maxLines;
+    const duration = getDurationMs(cue);
+    if (!duration || duration <= 0 || profile.maxCps <= 0) return byLayout;
+    return Math.max(1, Math.min(byLayout, Math.floor(profile.maxCps * duration / 1000)));
+};
+
+export const checkCue = (cue: SubtitleBlock, profile: ConformanceProfile): ConformanceIssue[] => {
+    if (cue.text.trim() === '') return [];
+    const issues: ConformanceIssue[] = [];
+    const lines = stripMarkup(cue.text).split('\n');
+    const longest = Math.max(...lines.map(line => line.length));
+    if (longest > profile.maxCharsPerLine) {
+        issues.push({ code: 'line-length', message: `Linha com ${longest} caracteres (máximo ${profile.maxCharsPerLine}).` });
+    }
+    if (lines.length > profile.maxLines) {
+        issues.push({ code: 'line-count', message: `${lines.length} linhas (máximo ${profile.maxLines}).` });
+    }
+    const duration = getDurationMs(cue);
+    if (duration !== null && duration > 0) {
+        const cps = getDisplayLength(cue.text) / (duration / 1000);
+        if (profile.maxCps > 0 && cps > profile.maxCps) {
+            issues.push({ code: 'reading-speed', message: `${cps.toFixed(1)} caracteres por segundo (máximo ${profile.maxCps}).` });
+        }
+        if (duration < profile.minDurationMs) {
+            issues.push({ code: 'min-duration', message: `Duração de ${duration} ms (mínimo ${profile.minDurationMs} ms).` });
+        }
+    }
+    return issues;
+};
+
+/** Issues per cue position, for the cues that break the profile. */
+export const checkConformance = (cues: SubtitleBlock[], profile: ConformanceProfile): Map<number, ConformanceIssue[]> => {
+    const issues = new Map<number, ConformanceIssue[]>();
+    cues.forEach((cue, position) => {
+        const cueIssues = checkCue(cue, profile);
+        if (cueIssues.length > 0) issues.set(position, cueIssues);
+    });
+    return issues;
+};
+
+const bareWord = (word: string): string => stripMarkup(word).toLowerCase().replace(/^[^\p{L}]+|[^\p{L}]+$/gu, '');
+
+// Lower is better: balanced lines, breaks after punctuation or before a conjunction,
+// never after an article, and a slight preference for a longer bottom line.
+const scoreSplit = (first: string[], second: string[], maxCharsPerLine: number): number => {
+    const firstLength = stripMarkup(first.join(' ')).length;
+    const secondLength = stripMarkup(second.join(' ')).length;
+    let score = Math.abs(firstLength - secondLength);
+    score += Math.max(0, firstLength - maxCharsPerLine) * 100 + Math.max(0, secondLength - maxCharsPerLine) * 100;
+    if (firstLength > secondLength) score += 2;
+    const lastWord = stripMarkup(first[first.length - 1]);
+    if (/[.!?…;:,]$/.test(lastWord)) score -= 15;
+    if (BREAK_BEFORE_WORDS.has(bareWord(second[0]))) score -= 8;
+    if (NO_BREAK_AFTER_WORDS.has(bareWord(first[first.length - 1]))) score += 20;
+    return score;
+};
+
+// Fills lines one word at a time; only used when the text cannot fit in two lines anyway.
+const wrapGreedy = (words: string[], maxCharsPerLine: number): string[] => {
+    const lines: string[] = [];
+    let current: string[] = [];
+    words.forEach(word => {
+        if (current.length > 0 && stripMarkup([...current, word].join(' ')).length > maxCharsPerLine) {
+            lines.push(current.join(' '));
+            current = [];
+        }
+        current.push(word);
+    });
+    if (current.length > 0) lines.push(current.join(' '));
+    return lines;
+};
+
+/**
+ * Re-wraps a cue's text into the fewest lines the profile allows, choosing the break
+ * that keeps lines balanced and phrases together. Two-speaker dialogue (lines starting
+ * with a dash) is left alone, since each speaker must keep their own line.
+ */
+export const wrapText = (text: string, { maxCharsPerLine, maxLines }: ConformanceProfile): string => {
+    const lines = text.split('\n');
+    if (lines.length > 1 && lines.filter(line => DIALOGUE_LINE_PATTERN.test(line)).length > 1) return text;
+
+    const words = text.split(/\s+/).filter(word => word !== '');
+    const joined = words.join(' ');
+    if (words.length < 2 || maxLines < 2 || stripMarkup(joined).length <= maxCharsPerLine) return joined;
+
+    let best: { lines: string[]; score: number } | null = null;
+    for (let i = 1; i < words.length; i++) {
+        const first = words.slice(0, i);
+        const second = words.slice(i);
+        const score = scoreSplit(first, second, maxCharsPerLine);
+        if (!best || score < best.score) best = { lines: [first.join(' '), second.join(' ')], score };
+    }
+    const fitsInTwo = best!.lines.every(line => stripMarkup(line).length <= maxCharsPerLine);
+    return (fitsInTwo || maxLines === 2 ? best!.lines : wrapGreedy(words, maxCharsPerLine)).join('\n');
+};
+
+/** Whether re-wrapping alone cannot solve the cue's issues, so the text has to be shortened. */
+export const needsCondensing = (cue: SubtitleBlock, profile: ConformanceProfile): boolean =>
+    checkCue(cue, profile).some(issue => issue.code !== 'min-duration');
@@ -0,0 +1,134 @@
+import type { SubtitleCue, SubtitleDiagnostic, SubtitleDocument } from "../../types";
+import { formatTimeRange, formatTimestamp, parseTimeRange, parseTimestamp } from "./time";
+
+export const DEFAULT_EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+
+// Used when another format is exported as ASS: a single bottom-centred style.
+const DEFAULT_HEADER = `[Script Info]
+ScriptType: v4.00+
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+PlayResX: 1920
+PlayResY: 1080
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,64,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,50,1`;
+
+const DEFAULT_FIELDS: Record<string, string> = {
+    Layer: '0', Style: 'Default', Name: '', MarginL: '0', MarginR: '0', MarginV: '0', Effect: '',
+};
+
+const SECTION_PATTERN = /^\[.+\]$/;
+
+// Splits "Dialogue: 0,0:00:01.00,..." into exactly `count` fields; the last one (Text) may contain commas.
+const splitFields = (value: string, count: number): string[] => {
+    const fields: string[] = [];
+    let rest = value;
+    for (let i = 0; i < count - 1; i++) {
+        const comma = rest.indexOf(',');
+        if (comma === -1) break;
+        fields.push(rest.slice(0, comma).trim());
+        rest = rest.slice(comma + 1);
+    }
+    fields.push(rest);
+    return fields;
+};
+
+/**
+ * Parses ASS and SSA scripts. Sections other than [Events] are kept verbatim, and so are
+ * Dialogue lines whose times cannot be read; those are reported as diagnostics.
+ */
+export const parseAssWithDiagnostics = (content: string): { document: SubtitleDocument; diagnostics: SubtitleDiagnostic[] } => {
+    const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+    const diagnostics: SubtitleDiagnostic[] = [];
+    const headerLines: string[] = [];
+    const cues: SubtitleCue[] = [];
+    let eventFormat = DEFAULT_EVENT_FORMAT;
+    let pendingLines: string[] = [];
+    let trailingLines: string[] = [];
+    let section: 'header' | 'events' | 'after' = 'header';
+
+    for (const [lineIndex, line] of lines.entries()) {
+        const trimmed = line.trim();
+        if (section === 'header') {
+            if (trimmed.toLowerCase() === '[events]') {
+                section = 'events';
+            } else {
+                headerLines.push(line);
+            }
+            continue;
+        }
+        if (section === 'after' || (SECTION_PATTERN.test(trimmed))) {
+            section = 'after';
+            trailingLines.push(line);
+            continue;
+        }
+
+        const separator = trimmed.indexOf(':');
+        const kind = separator === -1 ? '' : trimmed.slice(0, separator);
+        const value = trimmed.slice(separator + 1).trimStart();
+
+        if (kind === 'Format') {
+            eventFormat = value.split(',').map(field => field.trim());
+        } else if (kind === 'Dialogue') {
+            const values = splitFields(value, eventFormat.length);
+            const record: Record<string, string> = {};
+            eventFormat.forEach((name, i) => { record[name] = values[i] ?? ''; });
+            const start = parseTimestamp(record.Start ?? '');
+            const end = parseTimestamp(record.End ?? '');
+            if (start === null || end === null) {
+                diagnostics.push({ code: 'invalid-timing', severity: 'error', line: lineIndex + 1, message: `Diálogo com tempo ilegível (${record.Start ?? ''} a ${record.End ?? ''}) mantido no ficheiro, mas não traduzido.` });
+                pendingLines.push(line);
+                continue;
+            }
+            const { Start, End, Text, ...fields } = record;
+            cues.push({
+                index: String(cues.length + 1),
+                time: formatTimeRange({ start, end }),
+                text: (Text ?? '').replace(/\\N/g, '\n'),
+                ass: { fields, leadingLines: pendingLines.length > 0 ? pendingLines : undefined },
+            });
+            pendingLines = [];
+        } else if (trimmed !== '') {
+            pendingLines.push(line);
+        }
+    }
+
+    trailingLines = [...pendingLines, ...trailingLines];
+    while (headerLines.length > 0 && headerLines[headerLines.length - 1].trim() === '') {
+        headerLines.pop();
+    }
+
+    return {
+        document: {
+            format: 'ass',
+            cues,
+            ass: { header: headerLines.join('\n'), eventFormat, trailingLines },
+        },
+        diagnostics,
+    };
+};
+
+export const parseAss = (content: string): SubtitleDocument => parseAssWithDiagnostics(content).document;
+
+export const stringifyAss = ({ cues, ass }: SubtitleDocument): string => {
+    const eventFormat = ass?.eventFormat ?? DEFAULT_EVENT_FORMAT;
+    const lines: string[] = [ass?.header || DEFAULT_HEADER, '', '[Events]', `Format: ${eventFormat.join(', ')}`];
+
+    for (const cue of cues) {
+        lines.push(...(cue.ass?.leadingLines ?? []));
+        const range = parseTimeRange(cue.time) ?? { start: 0, end: 0 };
+        const values: Record<string, string> = {
+            ...DEFAULT_FIELDS,
+            ...cue.ass?.fields,
+            Start: formatTimestamp(range.start, 'ass'),
+            End: formatTimestamp(range.end, 'ass'),
+            Text: cue.text.replace(/\n/g, '\\N'),
+        };
+        lines.push(`Dialogue: ${eventFormat.map(name => values[name] ?? '').join(',')}`);
+    }
+
+    lines.push(...(ass?.trailingLines ?? []));
+    return lines.join('\n') + '\n';
+};
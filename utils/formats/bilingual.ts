@@ -0,0 +1,142 @@
+import type { SubtitleCue, SubtitleDocument, SubtitleFormat } from "../../types";
+import { convertCueText, stripMarkup } from "./markup";
+import { formatTimestamp, parseTimeRange } from "./time";
+import { DEFAULT_EVENT_FORMAT } from "./ass";
+import { stringifyCsv } from "../csv";
+import { createXlsx } from "../xlsx";
+import type { SpreadsheetColumn } from "../xlsx";
+import { getOutputExtension, stringifySubtitles } from "./index";
+
+// Shown in SRT; players without <font> support (and VTT) still render the original in italics.
+const SOURCE_COLOR = '#B0B0B0';
+
+// Two styles: the translation at the bottom as usual, the original smaller and grey at the top.
+const DUAL_ASS_HEADER = `[Script Info]
+ScriptType: v4.00+
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+PlayResX: 1920
+PlayResY: 1080
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Translation,Arial,64,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,2,60,60,50,1
+Style: Original,Arial,52,&H00C8C8C8,&H000000FF,&H00000000,&H80000000,0,1,0,0,100,100,0,0,1,2,1,8,60,60,40,1`;
+
+export const REVIEW_SPREADSHEET_COLUMNS: SpreadsheetColumn[] = [
+    { header: 'index', width: 8 },
+    { header: 'start', width: 14 },
+    { header: 'end', width: 14 },
+    { header: 'source', width: 60 },
+    { header: 'target', width: 60 },
+];
+
+const dualAssFields = (style: string, layer: number): Record<string, string> =>
+    ({ Layer: String(layer), Style: style, Name: '', MarginL: '0', MarginR: '0', MarginV: '0', Effect: '' });
+
+// Source and translation must be cue for cue; a shorter translation is padded with empty cues.
+const pairCues = (source: SubtitleDocument, translated: SubtitleDocument): { source: SubtitleCue; translated: SubtitleCue }[] =>
+    translated.cues.map((cue, position) => ({ source: source.cues[position] ?? { ...cue, text: '' }, translated: cue }));
+
+/**
+ * One cue per line of dialogue with the original above the translation, in grey italics
+ * so the two are easy to tell apart. Built as SRT; stringifySubtitles converts it further.
+ */
+export const buildStackedDocument = (source: SubtitleDocument, translated: SubtitleDocument): SubtitleDocument => ({
+    format: 'srt',
+    cues: pairCues(source, translated).map(({ source: sourceCue, translated: translatedCue }) => {
+        const original = stripMarkup(sourceCue.text).trim();
+        const translation = convertCueText(translatedCue.text, translated.format, 'srt');
+        return {
+            index: translatedCue.index,
+            time: translatedCue.time,
+            text: original ? `<font color="${SOURCE_COLOR}"><i>${original.replace(/\n/g, '</i>\n<i>')}</i></font>\n${translation}` : translation,
+        };
+    }),
+});
+
+/**
+ * An ASS script with each language as its own style: the translation at the bottom and the
+ * original at the top, so players can show or restyle either. Styles of an ASS source are not kept.
+ */
+export const buildDualAssDocument = (source: SubtitleDocument, translated: SubtitleDocument): SubtitleDocument => ({
+    format: 'ass',
+    ass: { header: DUAL_ASS_HEADER, eventFormat: DEFAULT_EVENT_FORMAT, trailingLines: [] },
+    cues: pairCues(source, translated).flatMap(({ source: sourceCue, translated: translatedCue }) => {
+        const cues: SubtitleCue[] = [{
+            index: translatedCue.index,
+            time: translatedCue.time,
+            text: convertCueText(translatedCue.text, translated.format, 'ass'),
+            ass: { fields: dualAssFields('Translation', 0) },
+        }];
+        if (sourceCue.text.trim() !== '') {
+            cues.push({
+                index: translatedCue.index,
+                time: translatedCue.time,
+                text: convertCueText(sourceCue.text, source.format, 'ass'),
+                ass: { fields: dualAssFields('Original', 1) },
+            });
+        }
+        return cues;
+    }),
+});
+
+/** Rows for REVIEW_SPREADSHEET_COLUMNS: cue number, start and end as SRT timestamps, and the plain text of both sides. */
+export const buildReviewRows = (source: SubtitleDocument, translated: SubtitleDocument): string[][] =>
+    pairCues(source, translated).map(({ source: sourceCue, translated: translatedCue }) => {
+        const range = parseTimeRange(translatedCue.time);
+        return [translatedCue.index, range ? formatTimestamp(range.start) : '', range ? formatTimestamp(range.end) : '', stripMarkup(sourceCue.text), stripMarkup(translatedCue.text)];
+    });
+
+export const stringifyReviewCsv = (source: SubtitleDocument, translated: SubtitleDocument): string =>
+    stringifyCsv([REVIEW_SPREADSHEET_COLUMNS.map(column => column.header), ...buildReviewRows(source, translated)]);
+
+export type BilingualExportId = 'stacked' | 'dual-ass' | 'csv' | 'xlsx';
+
+export interface BilingualExport {
+    id: BilingualExportId;
+    label: string;
+    // Inserted before the extension, after the language suffix: episode.pt.bilingue.srt.
+    nameSuffix: string;
+}
+
+export const BILINGUAL_EXPORTS: BilingualExport[] = [
+    { id: 'stacked', label: 'Bilingue (original por cima)', nameSuffix: 'bilingue' },
+    { id: 'dual-ass', label: 'ASS com duas faixas', nameSuffix: 'bilingue' },
+    { id: 'csv', label: 'Folha de revisão (CSV)', nameSuffix: 'revisao' },
+    { id: 'xlsx', label: 'Folha de revisão (XLSX)', nameSuffix: 'revisao' },
+];
+
+export interface ExportedFile {
+    content: string | Uint8Array;
+    extension: string;
+    mimeType: string;
+}
+
+/** Builds one of BILINGUAL_EXPORTS. The stacked export is written in `outputFormat`, the others in their own. */
+export const buildBilingualExport = (
+    id: BilingualExportId,
+    source: SubtitleDocument,
+    translated: SubtitleDocument,
+    outputFormat: SubtitleFormat,
+    originalName: string,
+): ExportedFile => {
+    switch (id) {
+        case 'stacked':
+            return {
+                content: stringifySubtitles(buildStackedDocument(source, translated), outputFormat),
+                extension: getOutputExtension(originalName, translated.format, outputFormat),
+                mimeType: 'text/plain;charset=utf-8',
+            };
+        case 'dual-ass':
+            return { content: stringifySubtitles(buildDualAssDocument(source, translated)), extension: 'ass', mimeType: 'text/plain;charset=utf-8' };
+        case 'csv':
+            return { content: stringifyReviewCsv(source, translated), extension: 'csv', mimeType: 'text/csv;charset=utf-8' };
+        case 'xlsx':
+            return {
+                content: createXlsx(REVIEW_SPREADSHEET_COLUMNS, buildReviewRows(source, translated), 'Legendas'),
+                extension: 'xlsx',
+                mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            };
+    }
+};
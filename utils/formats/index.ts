@@ -0,0 +1,94 @@
+import type { SubtitleDiagnostic, SubtitleDocument, SubtitleFormat } from "../../types";
+import { parseSrt, parseSrtWithDiagnostics, stringifySrt } from "./srt";
+import { parseVtt, parseVttWithDiagnostics, stringifyVtt } from "./vtt";
+import { parseAss, parseAssWithDiagnostics, stringifyAss } from "./ass";
+import { parseSbv, parseSbvWithDiagnostics, stringifySbv } from "./sbv";
+import { convertCueText } from "./markup";
+import { validateSubtitles } from "../validation";
+
+interface SubtitleFormatHandler {
+    id: SubtitleFormat;
+    label: string;
+    // The first extension is used when writing a converted file.
+    extensions: string[];
+    parse: (content: string) => SubtitleDocument;
+    // Parsers that recover from malformed input report what they fixed here.
+    parseWithDiagnostics?: (content: string) => { document: SubtitleDocument; diagnostics: SubtitleDiagnostic[] };
+    stringify: (document: SubtitleDocument) => string;
+}
+
+export const SUBTITLE_FORMATS: SubtitleFormatHandler[] = [
+    { id: 'srt', label: 'SubRip (.srt)', extensions: ['srt'], parse: parseSrt, parseWithDiagnostics: parseSrtWithDiagnostics, stringify: stringifySrt },
+    { id: 'vtt', label: 'WebVTT (.vtt)', extensions: ['vtt'], parse: parseVtt, parseWithDiagnostics: parseVttWithDiagnostics, stringify: stringifyVtt },
+    { id: 'ass', label: 'Advanced SubStation Alpha (.ass/.ssa)', extensions: ['ass', 'ssa'], parse: parseAss, parseWithDiagnostics: parseAssWithDiagnostics, stringify: stringifyAss },
+    { id: 'sbv', label: 'YouTube SubViewer (.sbv)', extensions: ['sbv'], parse: parseSbv, parseWithDiagnostics: parseSbvWithDiagnostics, stringify: stringifySbv },
+];
+
+export const SUPPORTED_EXTENSIONS = SUBTITLE_FORMATS.flatMap(format => format.extensions);
+
+const getHandler = (format: SubtitleFormat): SubtitleFormatHandler =>
+    SUBTITLE_FORMATS.find(handler => handler.id === format) ?? SUBTITLE_FORMATS[0];
+
+export const getFileExtension = (filename: string): string => {
+    const dot = filename.lastIndexOf('.');
+    return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase();
+};
+
+export const detectFormat = (filename: string): SubtitleFormat | null => {
+    const extension = getFileExtension(filename);
+    return SUBTITLE_FORMATS.find(handler => handler.extensions.includes(extension))?.id ?? null;
+};
+
+export const parseSubtitles = (content: string, format: SubtitleFormat): SubtitleDocument =>
+    getHandler(format).parse(content);
+
+/** Parses a file and validates the result; diagnostics are sorted by source line. */
+export const parseSubtitlesWithDiagnostics = (content: string, format: SubtitleFormat): { document: SubtitleDocument; diagnostics: SubtitleDiagnostic[] } => {
+    const handler = getHandler(format);
+    const { document, diagnostics } = handler.parseWithDiagnostics
+        ? handler.parseWithDiagnostics(content)
+        : { document: handler.parse(content), diagnostics: [] };
+    const allDiagnostics = [...diagnostics, ...validateSubtitles(document)]
+        .sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+    return { document, diagnostics: allDiagnostics };
+};
+
+/**
+ * Converts a document to another format. Cue timings and text are kept, inline
+ * markup is translated where the target supports it, and metadata that only makes
+ * sense in the source format (VTT settings, ASS styles) is dropped.
+ */
+export const convertDocument = (document: SubtitleDocument, format: SubtitleFormat): SubtitleDocument => {
+    if (document.format === format) return document;
+    return {
+        format,
+        cues: document.cues.map(({ index, time, text }) => ({
+            index,
+            time,
+            text: convertCueText(text, document.format, format),
+        })),
+    };
+};
+
+export const stringifySubtitles = (document: SubtitleDocument, format: SubtitleFormat = document.format): string => {
+    const converted = convertDocument(document, format);
+    return getHandler(format).stringify(converted);
+};
+
+/** Output extension: the original one when the format is unchanged (keeps .ssa), otherwise the format default. */
+export const getOutputExtension = (originalName: string, sourceFormat: SubtitleFormat, outputFormat: SubtitleFormat): string =>
+    sourceFormat === outputFormat && getHandler(outputFormat).extensions.includes(getFileExtension(originalName))
+        ? getFileExtension(originalName)
+        : getHandler(outputFormat).extensions[0];
+
+/** Output file name: the language suffix goes before the extension, e.g. `episode.pt.srt`. */
+export const getOutputFilename = (originalName: string, languageSuffix: string, extension: string): string => {
+    const parts = originalName.split('.');
+    if (parts.length > 1 && detectFormat(originalName)) {
+        parts.splice(parts.length - 1, 1, languageSuffix, extension);
+        return parts.join('.');
+    }
+    return `${originalName}.${languageSuffix}.${extension}`;
+};
+
+export { formatTimestamp, parseTimestamp, parseTimeRange, formatTimeRange, parseCueTiming, formatCueTiming } from "./time";
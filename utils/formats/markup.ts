@@ -0,0 +1,57 @@
+import type { SubtitleFormat } from "../../types";
+
+const HTML_STYLE_TAGS = ['i', 'b', 'u'];
+
+// Converts ASS override blocks such as {\i1} or {\b1\fs20} into the HTML-like tags
+// understood by SRT and VTT players. Tags without an equivalent are dropped.
+const assToHtml = (text: string): string =>
+    text.replace(/\{([^}]*)\}/g, (_, block: string) => {
+        const parts: string[] = [];
+        const tagPattern = /\\([ibu])([01])/g;
+        let match: RegExpExecArray | null;
+        while ((match = tagPattern.exec(block)) !== null) {
+            parts.push(match[2] === '1' ? `<${match[1]}>` : `</${match[1]}>`);
+        }
+        return parts.join('');
+    });
+
+const htmlToAss = (text: string): string =>
+    text
+        .replace(/<([ibu])(?:\.[^>]*)?>/gi, (_, tag: string) => `{\\${tag.toLowerCase()}1}`)
+        .replace(/<\/([ibu])>/gi, (_, tag: string) => `{\\${tag.toLowerCase()}0}`)
+        .replace(/<[^>]+>/g, '');
+
+const stripHtml = (text: string): string => text.replace(/<[^>]+>/g, '');
+
+const stripAss = (text: string): string => text.replace(/\{[^}]*\}/g, '');
+
+/** Text as the viewer sees it: HTML-style tags and ASS override blocks removed. */
+export const stripMarkup = (text: string): string => stripAss(stripHtml(text));
+
+// Keeps only the tags the target format understands.
+const keepHtmlTags = (text: string, allowed: string[]): string =>
+    text.replace(/<\/?([a-z0-9]+)[^>]*>|<\d[\d:.]*>/gi, (tag: string, name?: string) =>
+        name && allowed.includes(name.toLowerCase()) ? tag : ''
+    );
+
+/**
+ * Converts inline markup in cue text from one subtitle format to another.
+ * Line breaks are already plain "\n" in every parsed cue.
+ */
+export const convertCueText = (text: string, from: SubtitleFormat, to: SubtitleFormat): string => {
+    if (from === to) return text;
+
+    const html = from === 'ass' ? assToHtml(text) : text;
+    switch (to) {
+        case 'ass':
+            return htmlToAss(html);
+        case 'sbv':
+            return stripAss(stripHtml(html));
+        case 'srt':
+            return keepHtmlTags(html, [...HTML_STYLE_TAGS, 'font']);
+        case 'vtt':
+            return keepHtmlTags(html, HTML_STYLE_TAGS);
+        default:
+            return html;
+    }
+};
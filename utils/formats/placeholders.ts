@@ -0,0 +1,99 @@
+const TAG = String.raw`<[^>]+>|\{[^}]*\}`;
+const LEADING_TAGS_PATTERN = new RegExp(`^(?:${TAG})+`);
+const TRAILING_TAGS_PATTERN = new RegExp(`(?:${TAG})+$`);
+// Tags anywhere, and speaker dashes at the start of a line (possibly after tags).
+const MARKUP_PATTERN = new RegExp(`${TAG}|(?<=^(?:${TAG})*\\s*)[-–—]`, 'gm');
+const PLACEHOLDER_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+// Formatting tags that must be closed; VTT voice spans and timestamps legitimately are not.
+const PAIRED_TAG_PATTERN = /<(\/?)(i|b|u|s|font)\b[^>]*>/gi;
+
+export interface ProtectedText {
+    // The text to send, with markup inside it replaced by ⟦1⟧, ⟦2⟧...
+    text: string;
+    // Tags before and after all the dialogue (e.g. `{\an8}<i>` ... `</i>`), re-attached as they were.
+    prefix: string;
+    suffix: string;
+    // What each placeholder stands for; ⟦n⟧ is tokens[n - 1].
+    tokens: string[];
+    balanced: boolean;
+}
+
+const isDash = (token: string): boolean => /^[-–—]$/.test(token);
+
+export const hasBalancedTags = (text: string): boolean => {
+    const open: string[] = [];
+    for (const [, closing, name] of text.matchAll(PAIRED_TAG_PATTERN)) {
+        const tag = name.toLowerCase();
+        if (!closing) {
+            open.push(tag);
+        } else if (open.pop() !== tag) {
+            return false;
+        }
+    }
+    return open.length === 0;
+};
+
+/**
+ * Hides markup from the model: tags wrapping the whole cue are taken off and the
+ * remaining tags and speaker dashes become numbered placeholders it is told to keep.
+ */
+export const protectMarkup = (text: string): ProtectedText => {
+    const prefix = LEADING_TAGS_PATTERN.exec(text)?.[0] ?? '';
+    const rest = text.slice(prefix.length);
+    const suffix = rest === '' ? '' : TRAILING_TAGS_PATTERN.exec(rest)?.[0] ?? '';
+    const tokens: string[] = [];
+    const body = rest.slice(0, rest.length - suffix.length).replace(MARKUP_PATTERN, (token) => {
+        tokens.push(token);
+        return `⟦${tokens.length}⟧`;
+    });
+    return { text: body, prefix, suffix, tokens, balanced: hasBalancedTags(text) };
+};
+
+/**
+ * Puts the markup back into a translation. Returns null when the model dropped, repeated
+ * or invented a placeholder, or moved them so that formatting tags no longer nest.
+ */
+export const restoreMarkup = (translated: string, { prefix, suffix, tokens, balanced }: ProtectedText): string | null => {
+    const seen = new Set<number>();
+    for (const [, number] of translated.matchAll(PLACEHOLDER_PATTERN)) {
+        const n = parseInt(number, 10);
+        if (n < 1 || n > tokens.length || seen.has(n)) return null;
+        seen.add(n);
+    }
+    if (seen.size !== tokens.length) return null;
+    const restored = prefix + translated.replace(PLACEHOLDER_PATTERN, (_, number: string) => tokens[parseInt(number, 10) - 1]) + suffix;
+    return balanced && !hasBalancedTags(restored) ? null : restored;
+};
+
+// Dash placeholders opening each line of the protected text, with the spacing after them.
+const findLineDashes = (text: string, tokens: string[]): Map<number, { number: number; dash: string }> => {
+    const dashes = new Map<number, { number: number; dash: string }>();
+    text.split('\n').forEach((line, i) => {
+        const leading = /^(?:\s*⟦\s*\d+\s*⟧)*\s*/.exec(line)![0];
+        for (const [, number, spacing] of leading.matchAll(/⟦\s*(\d+)\s*⟧(\s*)/g)) {
+            const n = parseInt(number, 10);
+            if (isDash(tokens[n - 1] ?? '')) dashes.set(i, { number: n, dash: tokens[n - 1] + spacing });
+        }
+    });
+    return dashes;
+};
+
+/**
+ * Best effort when the model keeps mangling placeholders: speaker dashes are restored
+ * wherever they ended up, or at the start of their original line when the model dropped
+ * them, inner tags are dropped, and the cue-wide tags are kept when they still form valid
+ * markup on their own (otherwise only ASS positioning survives).
+ */
+export const fallbackMarkup = (translated: string, { text, prefix, suffix, tokens }: ProtectedText): string => {
+    const kept = new Set(Array.from(translated.matchAll(PLACEHOLDER_PATTERN), ([, number]) => parseInt(number, 10)));
+    const lineDashes = findLineDashes(text, tokens);
+    const body = translated.replace(PLACEHOLDER_PATTERN, (_, number: string) => {
+        const token = tokens[parseInt(number, 10) - 1];
+        return token && isDash(token) ? token : '';
+    }).split('\n').map((line, i) => {
+        const trimmed = line.trim();
+        const dropped = lineDashes.get(i);
+        return dropped && !kept.has(dropped.number) && !/^[-–—]/.test(trimmed) ? dropped.dash + trimmed : trimmed;
+    }).join('\n');
+    return hasBalancedTags(prefix + suffix) ? prefix + body + suffix : prefix.replace(/<[^>]+>/g, '') + body;
+};
@@ -0,0 +1,40 @@
+import type { SubtitleCue, SubtitleDiagnostic, SubtitleDocument } from "../../types";
+import { formatTimeRange, formatTimestamp, parseTimeRange, parseTimestamp } from "./time";
+
+// YouTube SubViewer: "0:00:01.000,0:00:03.500" followed by the text lines.
+export const parseSbvWithDiagnostics = (content: string): { document: SubtitleDocument; diagnostics: SubtitleDiagnostic[] } => {
+    const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const blocks = normalized.trim().split(/\n[ \t]*\n/);
+    const diagnostics: SubtitleDiagnostic[] = [];
+    const cues: SubtitleCue[] = [];
+    // Each separator is one blank line, so a block starts one line after the previous one ends.
+    let blockLine = (/^\s*/.exec(normalized)![0].match(/\n/g) ?? []).length + 1;
+
+    for (const block of blocks) {
+        const line = blockLine;
+        blockLine += block.split('\n').length + 1;
+        const [timing, ...textLines] = block.split('\n');
+        const [startPart, endPart] = timing.split(',');
+        const start = parseTimestamp(startPart ?? '');
+        const end = parseTimestamp(endPart ?? '');
+        if (start === null || end === null) {
+            if (timing.trim() !== '') {
+                diagnostics.push({ code: 'invalid-timing', severity: 'error', line, message: `Legenda com tempo ilegível "${timing.trim()}" ignorada.` });
+            }
+            continue;
+        }
+        const text = textLines.join('\n');
+        if (text.trim() === '') continue;
+        cues.push({ index: String(cues.length + 1), time: formatTimeRange({ start, end }), text });
+    }
+
+    return { document: { format: 'sbv', cues }, diagnostics };
+};
+
+export const parseSbv = (content: string): SubtitleDocument => parseSbvWithDiagnostics(content).document;
+
+export const stringifySbv = ({ cues }: SubtitleDocument): string =>
+    cues.map(cue => {
+        const range = parseTimeRange(cue.time) ?? { start: 0, end: 0 };
+        return `${formatTimestamp(range.start, 'sbv')},${formatTimestamp(range.end, 'sbv')}\n${cue.text}`;
+    }).join('\n\n') + '\n';
@@ -0,0 +1,103 @@
+import type { SubtitleCue, SubtitleDiagnostic, SubtitleDocument } from "../../types";
+import { formatTimeRange, parseTimestamp } from "./time";
+
+const TIMESTAMP = String.raw`\d+:\d{1,2}:\d{1,2}(?:[,.]\d{1,3})?`;
+// Lenient: any non-digit separator between the two timestamps, so "->", "- ->" or "—>" are recovered.
+const TIMING_LINE_PATTERN = new RegExp(String.raw`^\s*(${TIMESTAMP})\s*([^\d]*?)\s*(${TIMESTAMP})(.*)$`);
+const INDEX_PATTERN = /^\s*\d+\s*$/;
+
+interface SrtParseResult {
+    document: SubtitleDocument;
+    // Problems the parser recovered from; timing and numbering checks live in validateSubtitles.
+    diagnostics: SubtitleDiagnostic[];
+}
+
+const isBlank = (line: string) => line.trim() === '';
+
+/**
+ * Tolerant SRT parser. Cues are anchored on their timing lines rather than on blank-line
+ * separators, so extra blank lines, missing indices, odd line endings, malformed arrows and
+ * dot-millisecond timestamps are recovered instead of dropping the block.
+ */
+export const parseSrtWithDiagnostics = (srtContent: string): SrtParseResult => {
+    const diagnostics: SubtitleDiagnostic[] = [];
+
+    let content = srtContent;
+    if (content.startsWith('\uFEFF')) {
+        content = content.slice(1);
+        diagnostics.push({ code: 'bom', severity: 'info', line: 1, message: 'Marca BOM no início do ficheiro removida.' });
+    }
+    if (/\r(?!\n)/.test(content)) {
+        diagnostics.push({ code: 'line-endings', severity: 'info', message: 'Fins de linha apenas com \\r (Mac antigo) convertidos.' });
+    }
+    const lines = content.replace(/\r\n?/g, '\n').split('\n');
+
+    const timingLines: number[] = [];
+    lines.forEach((line, i) => {
+        if (TIMING_LINE_PATTERN.test(line)) {
+            timingLines.push(i);
+        } else if (line.includes('-->')) {
+            // Not a cue boundary, so the line stays in the text of the cue before it.
+            diagnostics.push({ code: 'invalid-timing', severity: 'error', line: i + 1, message: `Linha de tempo ilegível "${line.trim()}"; ficou como texto da legenda anterior.` });
+        }
+    });
+
+    const firstCueStart = timingLines.length > 0 && timingLines[0] > 0 && INDEX_PATTERN.test(lines[timingLines[0] - 1])
+        ? timingLines[0] - 1
+        : timingLines[0] ?? lines.length;
+    const leading = lines.slice(0, firstCueStart).findIndex(line => !isBlank(line));
+    if (leading !== -1) {
+        diagnostics.push({ code: 'unparsed-lines', severity: 'warning', line: leading + 1, message: 'Texto antes da primeira legenda ignorado.' });
+    }
+
+    const cues: SubtitleCue[] = [];
+    timingLines.forEach((timingLine, k) => {
+        const lineNumber = timingLine + 1;
+        const cuePosition = cues.length;
+        const nextTimingLine = timingLines[k + 1] ?? lines.length;
+        // The line right before the next timing line is that cue's index, when numeric.
+        const textEnd = nextTimingLine < lines.length && INDEX_PATTERN.test(lines[nextTimingLine - 1])
+            ? nextTimingLine - 1
+            : nextTimingLine;
+
+        const match = TIMING_LINE_PATTERN.exec(lines[timingLine])!;
+        const [, startText, arrow, endText, rest] = match;
+        if (arrow !== '-->') {
+            diagnostics.push({ code: 'malformed-arrow', severity: 'warning', line: lineNumber, cuePosition, message: `Seta de tempo inválida "${arrow || '(em falta)'}" corrigida para "-->".` });
+        }
+        if (startText.includes('.') || endText.includes('.')) {
+            diagnostics.push({ code: 'dot-milliseconds', severity: 'info', line: lineNumber, cuePosition, message: 'Milissegundos separados por ponto convertidos para vírgula.' });
+        }
+        const start = parseTimestamp(startText) ?? 0;
+        const end = parseTimestamp(endText) ?? 0;
+        const time = formatTimeRange({ start, end }) + (rest.trim() ? ` ${rest.trim()}` : '');
+
+        const previousLine = timingLine > 0 ? lines[timingLine - 1] : '';
+        let index: string;
+        if (INDEX_PATTERN.test(previousLine) && (k === 0 || timingLine - 1 >= (timingLines[k - 1] + 1))) {
+            index = previousLine.trim();
+        } else {
+            const previousIndex = cues.length > 0 ? parseInt(cues[cues.length - 1].index, 10) : 0;
+            index = String((isNaN(previousIndex) ? cues.length : previousIndex) + 1);
+            diagnostics.push({ code: 'missing-index', severity: 'warning', line: lineNumber, cuePosition, message: `Número da legenda em falta; atribuído ${index}.` });
+        }
+
+        let textLines = lines.slice(timingLine + 1, textEnd);
+        while (textLines.length > 0 && isBlank(textLines[textLines.length - 1])) textLines.pop();
+        while (textLines.length > 0 && isBlank(textLines[0])) textLines.shift();
+        if (textLines.some(isBlank)) {
+            diagnostics.push({ code: 'extra-blank-lines', severity: 'info', line: lineNumber, cuePosition, message: 'Linhas em branco dentro do texto da legenda removidas.' });
+            textLines = textLines.filter(line => !isBlank(line));
+        }
+
+        cues.push({ index, time, text: textLines.join('\n'), sourceLine: lineNumber });
+    });
+
+    return { document: { format: 'srt', cues }, diagnostics };
+};
+
+export const parseSrt = (srtContent: string): SubtitleDocument => parseSrtWithDiagnostics(srtContent).document;
+
+export const stringifySrt = ({ cues }: SubtitleDocument): string => {
+    return cues.map(sub => `${sub.index}\n${sub.time}\n${sub.text}`).join('\n\n') + '\n\n';
+};
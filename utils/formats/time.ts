@@ -0,0 +1,66 @@
+import type { CueTiming } from "../../types";
+
+export type TimestampStyle = 'srt' | 'vtt' | 'ass' | 'sbv';
+
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+// Accepts "01:02:03,456", "01:02:03.456", "02:03.456" (VTT), "1:02:03.45" (ASS) and "1:02:03.456" (SBV).
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/;
+
+export const parseTimestamp = (value: string): number | null => {
+    const match = TIMESTAMP_PATTERN.exec(value.trim());
+    if (!match) return null;
+    const [, hours = '0', minutes, seconds, fraction = ''] = match;
+    const milliseconds = fraction ? Math.round(parseInt(fraction, 10) * Math.pow(10, 3 - fraction.length)) : 0;
+    return ((parseInt(hours, 10) * 60 + parseInt(minutes, 10)) * 60 + parseInt(seconds, 10)) * 1000 + milliseconds;
+};
+
+const pad = (value: number, width = 2) => String(value).padStart(width, '0');
+
+export const formatTimestamp = (totalMs: number, style: TimestampStyle = 'srt'): string => {
+    const ms = Math.max(0, Math.round(totalMs));
+    const hours = Math.floor(ms / 3600000);
+    const minutes = Math.floor(ms / 60000) % 60;
+    const seconds = Math.floor(ms / 1000) % 60;
+    const millis = ms % 1000;
+
+    switch (style) {
+        case 'vtt':
+            return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+        case 'ass':
+            return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(Math.floor(millis / 10))}`;
+        case 'sbv':
+            return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+        case 'srt':
+        default:
+            return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(millis, 3)}`;
+    }
+};
+
+export const parseTimeRange = (time: string): TimeRange | null => {
+    const [startPart, endPart] = time.split('-->');
+    if (endPart === undefined) return null;
+    const start = parseTimestamp(startPart);
+    // Anything after the end timestamp (e.g. SRT coordinates) is ignored.
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0] ?? '');
+    if (start === null || end === null) return null;
+    return { start, end };
+};
+
+export const formatTimeRange = ({ start, end }: TimeRange): string =>
+    `${formatTimestamp(start, 'srt')} --> ${formatTimestamp(end, 'srt')}`;
+
+/** Parses a cue's `time` string, keeping any settings after the end timestamp. */
+export const parseCueTiming = (time: string): CueTiming | null => {
+    const range = parseTimeRange(time);
+    if (!range) return null;
+    const [, endPart = ''] = time.split('-->');
+    const settings = endPart.trim().split(/\s+/).slice(1).join(' ');
+    return settings ? { ...range, settings } : range;
+};
+
+export const formatCueTiming = ({ start, end, settings }: CueTiming): string =>
+    formatTimeRange({ start, end }) + (settings ? ` ${settings}` : '');
@@ -0,0 +1,77 @@
+import type { SubtitleCue, SubtitleDiagnostic, SubtitleDocument } from "../../types";
+import { formatTimeRange, formatTimestamp, parseTimeRange, parseTimestamp } from "./time";
+
+const TIMING_LINE_PATTERN = /^(\S+)[ \t]+-->[ \t]+(\S+)(.*)$/;
+const NON_CUE_BLOCK_PATTERN = /^(NOTE|STYLE|REGION)(\s|$)/;
+
+export const parseVttWithDiagnostics = (content: string): { document: SubtitleDocument; diagnostics: SubtitleDiagnostic[] } => {
+    const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+    const blocks = normalized.trim().split(/\n[ \t]*\n/);
+    const diagnostics: SubtitleDiagnostic[] = [];
+    const cues: SubtitleCue[] = [];
+    let header = 'WEBVTT';
+    let pendingBlocks: string[] = [];
+    // Each separator is one blank line, so a block starts one line after the previous one ends.
+    let blockLine = (/^\s*/.exec(normalized)![0].match(/\n/g) ?? []).length + 1;
+
+    blocks.forEach((block, blockIndex) => {
+        const line = blockLine;
+        blockLine += block.split('\n').length + 1;
+        if (blockIndex === 0 && block.startsWith('WEBVTT')) {
+            header = block;
+            return;
+        }
+        if (NON_CUE_BLOCK_PATTERN.test(block)) {
+            pendingBlocks.push(block);
+            return;
+        }
+
+        const lines = block.split('\n');
+        const timingLineIndex = lines.findIndex(line => line.includes('-->'));
+        if (timingLineIndex === -1 || timingLineIndex > 1) return; // not a cue
+        const match = TIMING_LINE_PATTERN.exec(lines[timingLineIndex].trim());
+        const start = match ? parseTimestamp(match[1]) : null;
+        const end = match ? parseTimestamp(match[2]) : null;
+        if (!match || start === null || end === null) {
+            diagnostics.push({ code: 'invalid-timing', severity: 'error', line: line + timingLineIndex, message: `Legenda com tempo ilegível "${lines[timingLineIndex].trim()}" ignorada.` });
+            return;
+        }
+
+        const text = lines.slice(timingLineIndex + 1).join('\n');
+        const settings = match[3].trim();
+        cues.push({
+            index: String(cues.length + 1),
+            time: formatTimeRange({ start, end }),
+            text,
+            vtt: {
+                identifier: timingLineIndex === 1 ? lines[0] : undefined,
+                settings: settings || undefined,
+                leadingBlocks: pendingBlocks.length > 0 ? pendingBlocks : undefined,
+            },
+        });
+        pendingBlocks = [];
+    });
+
+    return { document: { format: 'vtt', cues, vtt: { header, trailingBlocks: pendingBlocks } }, diagnostics };
+};
+
+export const parseVtt = (content: string): SubtitleDocument => parseVttWithDiagnostics(content).document;
+
+export const stringifyVtt = ({ cues, vtt }: SubtitleDocument): string => {
+    const blocks: string[] = [vtt?.header ?? 'WEBVTT'];
+
+    for (const cue of cues) {
+        blocks.push(...(cue.vtt?.leadingBlocks ?? []));
+        const range = parseTimeRange(cue.time) ?? { start: 0, end: 0 };
+        const timing = `${formatTimestamp(range.start, 'vtt')} --> ${formatTimestamp(range.end, 'vtt')}`;
+        const lines = [
+            ...(cue.vtt?.identifier ? [cue.vtt.identifier] : []),
+            cue.vtt?.settings ? `${timing} ${cue.vtt.settings}` : timing,
+            cue.text,
+        ];
+        blocks.push(lines.join('\n'));
+    }
+
+    blocks.push(...(vtt?.trailingBlocks ?? []));
+    return blocks.join('\n\n') + '\n';
+};
@@ -0,0 +1,129 @@
+import type { GlossaryEntry, SubtitleBlock } from "../types";
+import { parseCsv, stringifyCsv } from "./csv";
+import { stripMarkup } from "./formats/markup";
+
+const CSV_HEADER = ['source', 'target', 'note'];
+const MAX_CANDIDATES = 60;
+// Capitalised words that are not names even when they recur mid-sentence.
+const NON_NAMES = new Set(['I', "I'm", "I'll", "I've", "I'd", 'OK', 'Okay', 'Mr', 'Mrs', 'Ms', 'Dr', 'God', 'Oh', 'Hey']);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (term: string, caseSensitive = false): RegExp =>
+    new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}])`, caseSensitive ? 'u' : 'iu');
+
+export const containsTerm = (text: string, term: string, caseSensitive = false): boolean =>
+    term.trim() !== '' && termPattern(term, caseSensitive).test(text);
+
+export const normalizeGlossary = (entries: GlossaryEntry[]): GlossaryEntry[] => {
+    const seen = new Set<string>();
+    return entries
+        .map(entry => ({ ...entry, source: entry.source.trim(), target: entry.target.trim(), note: entry.note?.trim() || undefined }))
+        .filter(entry => {
+            const key = entry.source.toLowerCase();
+            if (!entry.source || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+};
+
+interface GlossaryItem {
+    source: string;
+    target?: unknown;
+    note?: unknown;
+    caseSensitive?: unknown;
+}
+
+const isGlossaryItem = (value: unknown): value is GlossaryItem =>
+    typeof value === 'object' && value !== null && typeof (value as { source?: unknown }).source === 'string';
+
+const findItemList = (data: unknown): unknown[] | null => {
+    if (Array.isArray(data)) return data;
+    const entries = typeof data === 'object' && data !== null ? (data as { entries?: unknown }).entries : undefined;
+    return Array.isArray(entries) ? entries : null;
+};
+
+/** Accepts CSV with a "source,target,note" header (or without a header) and JSON arrays of entries. */
+export const parseGlossary = (content: string, filename: string): GlossaryEntry[] => {
+    if (filename.toLowerCase().endsWith('.json')) {
+        const list = findItemList(JSON.parse(content) as unknown);
+        if (!list) throw new Error('O ficheiro JSON deve conter uma lista de termos.');
+        return normalizeGlossary(list
+            .filter(isGlossaryItem)
+            .map(item => ({
+                source: item.source,
+                target: typeof item.target === 'string' ? item.target : '',
+                note: typeof item.note === 'string' ? item.note : undefined,
+                caseSensitive: item.caseSensitive === true || undefined,
+            })));
+    }
+
+    const rows = parseCsv(content);
+    const hasHeader = rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'source';
+    return normalizeGlossary((hasHeader ? rows.slice(1) : rows).map(([source = '', target = '', note = '']) => ({ source, target, note })));
+};
+
+export const stringifyGlossaryCsv = (entries: GlossaryEntry[]): string =>
+    stringifyCsv([CSV_HEADER, ...entries.map(entry => [entry.source, entry.target, entry.note ?? ''])]);
+
+export const stringifyGlossaryJson = (entries: GlossaryEntry[]): string =>
+    JSON.stringify(entries, null, 2) + '\n';
+
+/** Entries whose source term occurs in any of the given texts, so each prompt only carries what it needs. */
+export const findRelevantEntries = (glossary: GlossaryEntry[], texts: string[]): GlossaryEntry[] => {
+    const haystack = texts.map(stripMarkup).join('\n');
+    return glossary.filter(entry => containsTerm(haystack, entry.source, entry.caseSensitive));
+};
+
+/**
+ * Heuristic first pass for proper nouns: capitalised words or runs of words that recur
+ * away from the start of a sentence and never appear in lower case.
+ */
+export const extractCandidateTerms = (cues: SubtitleBlock[]): string[] => {
+    const counts = new Map<string, number>();
+    const lowercaseWords = new Set<string>();
+
+    for (const cue of cues) {
+        const text = stripMarkup(cue.text).replace(/\n/g, ' ');
+        for (const word of text.match(/\p{Ll}[\p{L}'’-]*/gu) ?? []) {
+            lowercaseWords.add(word.toLowerCase());
+        }
+        const pattern = /(^|[.!?…:"“\-–—]\s*|\s)(\p{Lu}[\p{L}'’-]+(?:\s+\p{Lu}[\p{L}'’-]+)*)/gu;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text)) !== null) {
+            const atSentenceStart = match[1].trim() !== '' || match.index === 0;
+            let words = match[2].replace(/['’]s$/, '').split(/\s+/);
+            // The first word of a sentence is capitalised anyway, so it tells us nothing.
+            if (atSentenceStart) words = words.slice(1);
+            if (words.length === 0) continue;
+            const term = words.join(' ');
+            counts.set(term, (counts.get(term) ?? 0) + 1);
+        }
+    }
+
+    return Array.from(counts.entries())
+        .filter(([term, count]) => {
+            if (NON_NAMES.has(term) || term.length < 2) return false;
+            if (term.split(/\s+/).length === 1 && lowercaseWords.has(term.toLowerCase())) return false;
+            return count >= 2 || term.includes(' ');
+        })
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_CANDIDATES)
+        .map(([term]) => term);
+};
+
+/** For each cue, the glossary terms present in the source whose required target is missing from the translation. */
+export const checkGlossary = (sourceCues: SubtitleBlock[], translatedCues: SubtitleBlock[], glossary: GlossaryEntry[]): Map<number, GlossaryEntry[]> => {
+    const issues = new Map<number, GlossaryEntry[]>();
+    const enforced = glossary.filter(entry => entry.target !== '');
+    sourceCues.forEach((cue, position) => {
+        const translated = translatedCues[position];
+        if (!translated) return;
+        const missing = enforced.filter(entry =>
+            containsTerm(stripMarkup(cue.text), entry.source, entry.caseSensitive)
+            && !containsTerm(stripMarkup(translated.text), entry.target, entry.caseSensitive)
+        );
+        if (missing.length > 0) issues.set(position, missing);
+    });
+    return issues;
+};
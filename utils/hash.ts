@@ -0,0 +1,5 @@
+/** SHA-256 of a string as lowercase hex, using the Web Crypto API. */
+export const sha256Hex = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,152 @@
+import type { Formality } from "../types";
+
+export interface LanguageDefinition {
+    // BCP 47 tag used internally and in settings.
+    code: string;
+    // ISO code inserted in the output filename, e.g. "episode.pt-BR.srt".
+    fileSuffix: string;
+    // English name, used in the prompt.
+    name: string;
+    // Label shown in the (Portuguese) UI.
+    label: string;
+    // Language-specific guidance appended to the prompt when this is the target.
+    styleRules: string[];
+    // How to address people for each formality setting of the style profile, where the language distinguishes.
+    addressRules?: Record<Formality, string>;
+    // Milder swear words offered as examples when the profile softens profanity.
+    softProfanity?: string;
+    // Translation of the prompt example, so the model sees the expected variety.
+    example: [string, string];
+    // The same example with formal address, for profiles that ask for it.
+    formalExample?: [string, string];
+}
+
+export const AUTO_DETECT = 'auto';
+
+export const LANGUAGES: LanguageDefinition[] = [
+    {
+        code: 'pt-PT',
+        fileSuffix: 'pt',
+        name: 'European Portuguese',
+        label: 'Português Europeu',
+        styleRules: [
+            'Use European Portuguese vocabulary, spelling and grammar (e.g. "autocarro", "telemóvel"), never Brazilian Portuguese.',
+        ],
+        addressRules: {
+            natural: 'Use "tu" for informal address between characters who know each other and "você"/"o senhor" only where the original is clearly formal.',
+            informal: 'Use "tu" for second-person address throughout, even between characters who have just met.',
+            formal: 'Use "você", "o senhor" or "a senhora" for second-person address throughout, never "tu".',
+        },
+        softProfanity: '"carago" or "porra"',
+        example: ['Olá, mundo.', 'Como estás?'],
+        formalExample: ['Olá, mundo.', 'Como está?'],
+    },
+    {
+        code: 'pt-BR',
+        fileSuffix: 'pt-BR',
+        name: 'Brazilian Portuguese',
+        label: 'Português do Brasil',
+        styleRules: [
+            'Use Brazilian Portuguese vocabulary, spelling and grammar (e.g. "ônibus", "celular"), never European Portuguese.',
+        ],
+        addressRules: {
+            natural: 'Use "você" for second-person address, as is natural in Brazilian dialogue.',
+            informal: 'Use "você" for second-person address, with the relaxed forms of everyday Brazilian speech.',
+            formal: 'Use "o senhor" or "a senhora" for second-person address wherever the characters are not close, and "você" only between intimates.',
+        },
+        softProfanity: '"droga" or "caramba"',
+        example: ['Olá, mundo.', 'Como você está?'],
+        formalExample: ['Olá, mundo.', 'Como o senhor está?'],
+    },
+    {
+        code: 'es',
+        fileSuffix: 'es',
+        name: 'Spanish',
+        label: 'Espanhol',
+        styleRules: [
+            'Use neutral Spanish that reads naturally to both European and Latin American audiences unless the dialogue is strongly regional.',
+            'Use opening question and exclamation marks ("¿", "¡").',
+        ],
+        addressRules: {
+            natural: 'Choose between "tú" and "usted" according to the relationship between the characters, and keep that choice consistent.',
+            informal: 'Use "tú" for second-person address throughout.',
+            formal: 'Use "usted" for second-person address throughout.',
+        },
+        softProfanity: '"maldita sea" or "caray"',
+        example: ['Hola, mundo.', '¿Cómo estás?'],
+        formalExample: ['Hola, mundo.', '¿Cómo está usted?'],
+    },
+    {
+        code: 'fr',
+        fileSuffix: 'fr',
+        name: 'French',
+        label: 'Francês',
+        styleRules: [
+            'Follow French typographic conventions: a space before "?", "!", ":" and ";", and « guillemets » for quotations.',
+        ],
+        addressRules: {
+            natural: 'Choose between "tu" and "vous" according to the relationship between the characters, and keep that choice consistent.',
+            informal: 'Use "tu" for second-person address throughout.',
+            formal: 'Use "vous" for second-person address throughout.',
+        },
+        softProfanity: '"mince" or "zut"',
+        example: ['Bonjour, le monde.', 'Comment vas-tu ?'],
+        formalExample: ['Bonjour, le monde.', 'Comment allez-vous ?'],
+    },
+    {
+        code: 'en',
+        fileSuffix: 'en',
+        name: 'English',
+        label: 'Inglês',
+        styleRules: [
+            'Use natural, idiomatic English dialogue.',
+        ],
+        example: ['Hello, world.', 'How are you?'],
+    },
+    {
+        code: 'de',
+        fileSuffix: 'de',
+        name: 'German',
+        label: 'Alemão',
+        styleRules: [],
+        addressRules: {
+            natural: 'Choose between "du" and "Sie" according to the relationship between the characters, and keep that choice consistent.',
+            informal: 'Use "du" for second-person address throughout.',
+            formal: 'Use "Sie" for second-person address throughout.',
+        },
+        example: ['Hallo, Welt.', 'Wie geht es dir?'],
+        formalExample: ['Hallo, Welt.', 'Wie geht es Ihnen?'],
+    },
+    {
+        code: 'it',
+        fileSuffix: 'it',
+        name: 'Italian',
+        label: 'Italiano',
+        styleRules: [],
+        addressRules: {
+            natural: 'Choose between "tu" and "Lei" according to the relationship between the characters, and keep that choice consistent.',
+            informal: 'Use "tu" for second-person address throughout.',
+            formal: 'Use "Lei" for second-person address throughout.',
+        },
+        example: ['Ciao, mondo.', 'Come stai?'],
+        formalExample: ['Ciao, mondo.', 'Come sta?'],
+    },
+];
+
+export const DEFAULT_SOURCE_LANGUAGE = AUTO_DETECT;
+export const DEFAULT_TARGET_LANGUAGE = 'pt-PT';
+
+export const getLanguage = (code: string): LanguageDefinition | undefined =>
+    LANGUAGES.find(language => language.code.toLowerCase() === code.toLowerCase());
+
+export const getTargetLanguage = (code: string): LanguageDefinition =>
+    getLanguage(code) ?? getLanguage(DEFAULT_TARGET_LANGUAGE)!;
+
+/** Maps a language tag from another tool (`pt`, `pt-pt`, `en-US`) to one of ours. */
+export const findLanguageByTag = (tag: string): LanguageDefinition | undefined => {
+    const normalized = tag.trim().toLowerCase();
+    const primary = normalized.split(/[-_]/)[0];
+    return getLanguage(normalized)
+        ?? LANGUAGES.find(language => language.fileSuffix.toLowerCase() === normalized)
+        ?? LANGUAGES.find(language => language.code.toLowerCase().split('-')[0] === primary);
+};
@@ -0,0 +1,154 @@
+import type { QualityIssue, QualityIssueCode, SubtitleBlock, TranslationOptions } from "../types";
+import { stripMarkup } from "./formats/markup";
+import { stringifyCsv } from "./csv";
+import { similarity, trigrams } from "./similarity";
+import { AUTO_DETECT } from "./languages";
+
+// A cue is flagged when its target/source length ratio is this many times above or below the file's median.
+const LENGTH_RATIO_FACTOR = 2.2;
+// Short lines vary too much in length ("Yes." / "Sim.") to say anything about omissions.
+const MIN_RATIO_LENGTH = 20;
+// Back-translations are paraphrases, so only a very low overlap with the original is suspicious.
+const BACK_TRANSLATION_THRESHOLD = 0.3;
+// English words that are not also common words in the other supported languages.
+const ENGLISH_WORDS = new Set([
+    'the', 'and', 'you', 'your', 'is', 'are', 'was', 'were', 'what', 'this', 'that', 'with', 'have', 'has',
+    "don't", "i'm", "it's", "you're", "can't", 'we', 'they', 'will', 'would', 'there', 'here', 'just', 'know', 'yeah', 'right',
+]);
+const MIN_ENGLISH_WORDS = 2;
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueCode, string> = {
+    'empty': 'sem tradução',
+    'untranslated': 'por traduzir',
+    'length-ratio': 'comprimento anómalo',
+    'numbers': 'números diferentes',
+    'source-words': 'palavras em inglês',
+    'back-translation': 'retrotradução divergente',
+};
+
+/** A translation with the back-translation that was made from it, so edits invalidate it. */
+export interface BackTranslation {
+    translation: string;
+    text: string;
+}
+
+const plain = (text: string): string => stripMarkup(text).replace(/\s+/g, ' ').trim();
+
+const getWords = (text: string): string[] => plain(text).toLowerCase().match(/[\p{L}']+/gu) ?? [];
+
+// Digits only, so "1,000", "1.000" and "1 000" compare equal.
+const getNumbers = (text: string): string[] =>
+    (plain(text).match(/\d+(?:[.,\s]\d{3})*(?:[.,]\d+)?/g) ?? []).map(number => number.replace(/[.,\s]/g, '')).sort();
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// How long translations usually are compared with the original in this file.
+const getTypicalRatio = (sourceCues: SubtitleBlock[], translatedCues: SubtitleBlock[]): number => {
+    const ratios = sourceCues
+        .map((cue, i) => ({ source: plain(cue.text).length, target: plain(translatedCues[i]?.text ?? '').length }))
+        .filter(({ source, target }) => source >= MIN_RATIO_LENGTH && target > 0)
+        .map(({ source, target }) => target / source);
+    return ratios.length > 0 ? median(ratios) : 1;
+};
+
+const checksSourceWords = ({ sourceLanguage, targetLanguage }: TranslationOptions): boolean =>
+    !targetLanguage.toLowerCase().startsWith('en') && (sourceLanguage === AUTO_DETECT || sourceLanguage.toLowerCase().startsWith('en'));
+
+const checkPair = (source: string, target: string, typicalRatio: number, options: TranslationOptions): QualityIssue[] => {
+    const issues: QualityIssue[] = [];
+    const sourceText = plain(source);
+    const targetText = plain(target);
+    if (sourceText === '') return issues;
+    if (targetText === '') {
+        return [{ code: 'empty', message: 'A tradução está vazia; o texto pode ter sido juntado a uma legenda vizinha.' }];
+    }
+
+    if (sourceText === targetText && getWords(sourceText).length >= 2) {
+        issues.push({ code: 'untranslated', message: 'A tradução é igual ao original.' });
+    }
+
+    if (sourceText.length >= MIN_RATIO_LENGTH) {
+        const ratio = targetText.length / sourceText.length;
+        if (ratio > typicalRatio * LENGTH_RATIO_FACTOR) {
+            issues.push({ code: 'length-ratio', message: `A tradução é ${ratio.toFixed(1)}× mais longa que o original; pode ter texto a mais.` });
+        } else if (ratio < typicalRatio / LENGTH_RATIO_FACTOR) {
+            issues.push({ code: 'length-ratio', message: `A tradução tem ${Math.round(ratio * 100)}% do comprimento do original; pode faltar texto.` });
+        }
+    }
+
+    const sourceNumbers = getNumbers(sourceText);
+    const targetNumbers = getNumbers(targetText);
+    if (sourceNumbers.join(' ') !== targetNumbers.join(' ')) {
+        issues.push({ code: 'numbers', message: `Números no original: ${sourceNumbers.join(', ') || 'nenhum'}; na tradução: ${targetNumbers.join(', ') || 'nenhum'}.` });
+    }
+
+    if (checksSourceWords(options)) {
+        const englishWords = getWords(targetText).filter(word => ENGLISH_WORDS.has(word));
+        if (englishWords.length >= MIN_ENGLISH_WORDS && sourceText !== targetText) {
+            issues.push({ code: 'source-words', message: `Palavras em inglês na tradução: ${[...new Set(englishWords)].join(', ')}.` });
+        }
+    }
+
+    return issues;
+};
+
+/**
+ * Offline checks for translations that look wrong: empty or untranslated cues, length
+ * ratio outliers (omissions, additions, lines merged into a neighbour), numbers that
+ * differ from the original and English words left in the translation. Back-translations,
+ * when given and still current, add a check on the meaning.
+ */
+export const checkQuality = (
+    sourceCues: SubtitleBlock[],
+    translatedCues: SubtitleBlock[],
+    options: TranslationOptions,
+    backTranslations: Map<number, BackTranslation> = new Map(),
+): Map<number, QualityIssue[]> => {
+    const typicalRatio = getTypicalRatio(sourceCues, translatedCues);
+    const issues = new Map<number, QualityIssue[]>();
+    translatedCues.forEach((cue, position) => {
+        const source = sourceCues[position]?.text ?? '';
+        const cueIssues = checkPair(source, cue.text, typicalRatio, options);
+        const backTranslation = backTranslations.get(position);
+        if (backTranslation && backTranslation.translation === cue.text) {
+            const score = getBackTranslationScore(source, backTranslation.text);
+            if (score < BACK_TRANSLATION_THRESHOLD) {
+                cueIssues.push({ code: 'back-translation', message: `A retrotradução "${backTranslation.text}" afasta-se do original (semelhança de ${Math.round(score * 100)}%).` });
+            }
+        }
+        if (cueIssues.length > 0) issues.set(position, cueIssues);
+    });
+    return issues;
+};
+
+/** How close a back-translation is to the original, from 0 to 1. */
+export const getBackTranslationScore = (source: string, backTranslation: string): number =>
+    similarity(trigrams(plain(source).toLowerCase()), trigrams(plain(backTranslation).toLowerCase()));
+
+/** Share of non-empty cues without any issue, from 0 to 1. */
+export const getQualityScore = (sourceCues: SubtitleBlock[], issues: Map<number, QualityIssue[]>): number => {
+    const total = sourceCues.filter(cue => plain(cue.text) !== '').length;
+    return total === 0 ? 1 : Math.max(0, total - issues.size) / total;
+};
+
+/** One row per flagged cue, for the report downloaded next to the subtitles. */
+export const stringifyQualityReport = (
+    sourceCues: SubtitleBlock[],
+    translatedCues: SubtitleBlock[],
+    issues: Map<number, QualityIssue[]>,
+    backTranslations: Map<number, BackTranslation> = new Map(),
+): string => stringifyCsv([
+    ['index', 'time', 'source', 'translation', 'back_translation', 'issues'],
+    ...Array.from(issues).sort(([a], [b]) => a - b).map(([position, cueIssues]) => [
+        translatedCues[position].index,
+        translatedCues[position].time,
+        sourceCues[position]?.text ?? '',
+        translatedCues[position].text,
+        backTranslations.get(position)?.text ?? '',
+        cueIssues.map(issue => issue.message).join(' '),
+    ]),
+]);
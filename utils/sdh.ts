@@ -0,0 +1,154 @@
+import type { SdhElement, SdhElementKind, SdhMode, SubtitleBlock, SubtitleCue, SubtitleDocument } from "../types";
+import { stripMarkup } from "./formats/markup";
+import { formatCueTiming, parseCueTiming } from "./formats/time";
+
+const TAGS = String.raw`(?:<[^>]+>|\{[^}]*\})*`;
+// An upper-case label such as JOHN:, DR. SMITH: or MAN (ON TV): at the start of a line.
+const SPEAKER = String.raw`\p{Lu}[\p{Lu}\d .'’&-]*[\p{Lu}\d](?:\s*[[(][^\])]*[\])])?:(?=\s|$)`;
+const SPEAKER_PATTERN = new RegExp(`^(?:[-–—]\\s*)?(${SPEAKER})`, 'u');
+// Keeps the tags and dialogue dash before the label.
+const SPEAKER_PREFIX_PATTERN = new RegExp(`^(${TAGS}\\s*(?:[-–—]\\s*)?)${SPEAKER}\\s*`, 'u');
+const BRACKETS_PATTERN = /\[[^\]\n]*\]/g;
+const PARENTHESES_PATTERN = /\([^)\n]*\)/g;
+const MUSIC_PATTERN = /[♪♫]/;
+const DASH_START_PATTERN = new RegExp(`^(${TAGS}\\s*)[-–—]\\s*`);
+const TAG_PATTERN = /<[^>]+>|\{[^}]*\}/g;
+
+// Cues left with the same text after stripping (a line repeated across a sound cue) are
+// merged when at most this far apart.
+const MAX_MERGE_GAP_MS = 500;
+
+export const SDH_ELEMENT_LABELS: Record<SdhElementKind, string> = {
+    'sound': 'descrições de sons',
+    'music': 'indicações de música',
+    'speaker': 'nomes de quem fala',
+};
+
+// Brackets are always annotations; parentheses only when in capitals, like (SIGHS), or
+// opening the line, like (laughing) Hey!, since dialogue uses them too.
+const isSoundParenthetical = (match: string, line: string, offset: number): boolean => {
+    const letters = match.slice(1, -1).replace(/[^\p{L}]/gu, '');
+    const isUpperCase = letters.length >= 2 && letters === letters.toUpperCase() && letters !== letters.toLowerCase();
+    const opensLine = stripMarkup(line.slice(0, offset)).replace(/^\s*[-–—]/, '').trim() === '';
+    return isUpperCase || opensLine;
+};
+
+const isMusicLine = (plainLine: string): boolean => MUSIC_PATTERN.test(plainLine) || /^#|#$/.test(plainLine.trim());
+
+/** The SDH annotations in a cue's text, line by line. */
+export const findSdhElements = (text: string): SdhElement[] =>
+    stripMarkup(text).split('\n').flatMap(line => {
+        const elements: SdhElement[] = [];
+        const speaker = SPEAKER_PATTERN.exec(line);
+        if (speaker) elements.push({ kind: 'speaker', text: speaker[1] });
+        // A label's own brackets, as in MAN (ON TV):, are part of the label.
+        const rest = speaker ? line.slice(speaker[0].length) : line;
+        for (const match of rest.matchAll(BRACKETS_PATTERN)) {
+            elements.push({ kind: 'sound', text: match[0] });
+        }
+        for (const match of rest.matchAll(PARENTHESES_PATTERN)) {
+            if (isSoundParenthetical(match[0], rest, match.index ?? 0)) elements.push({ kind: 'sound', text: match[0] });
+        }
+        if (isMusicLine(line)) elements.push({ kind: 'music', text: line.trim() });
+        return elements;
+    });
+
+/** Cues with SDH annotations, keyed by position. */
+export const detectSdh = (cues: SubtitleBlock[]): Map<number, SdhElement[]> => {
+    const found = new Map<number, SdhElement[]>();
+    cues.forEach((cue, position) => {
+        const elements = findSdhElements(cue.text);
+        if (elements.length > 0) found.set(position, elements);
+    });
+    return found;
+};
+
+const stripLine = (line: string): { text: string; hadSpeaker: boolean } => {
+    const speaker = SPEAKER_PREFIX_PATTERN.exec(line);
+    const text = (speaker ? speaker[1] + line.slice(speaker[0].length) : line)
+        .replace(BRACKETS_PATTERN, '')
+        .replace(PARENTHESES_PATTERN, (match, offset: number, whole: string) => isSoundParenthetical(match, whole, offset) ? '' : match)
+        .replace(/[♪♫]+/g, '')
+        .replace(new RegExp(`^(${TAGS}\\s*)#+`), '$1')
+        .replace(new RegExp(`#+(${TAGS}\\s*)$`), '$1')
+        .replace(/<(\w+)[^>]*>\s*<\/\1>/g, '')
+        .replace(/[ \t]{2,}/g, ' ')
+        .replace(/\s+([,.!?;:])/g, '$1')
+        .replace(new RegExp(`^(${TAGS})\\s+`), '$1')
+        .replace(new RegExp(`\\s+(${TAGS})$`), '$1')
+        .trim();
+    return { text, hadSpeaker: speaker !== null };
+};
+
+const isBlank = (line: string): boolean => stripMarkup(line).replace(/^\s*[-–—]/, '').trim() === '';
+
+/**
+ * Removes SDH annotations from a cue's text, or returns '' when nothing else is left.
+ * Tags of removed lines move to a neighbouring line so formatting stays balanced. When
+ * labels told two speakers apart, their lines get dialogue dashes instead; a dash left
+ * alone on a single remaining line is dropped.
+ */
+export const stripSdh = (text: string): string => {
+    const originalDashes = text.split('\n').filter(line => DASH_START_PATTERN.test(line)).length;
+    const kept: { text: string; hadSpeaker: boolean }[] = [];
+    let carriedTags = '';
+    for (const line of text.split('\n').map(stripLine)) {
+        if (isBlank(line.text)) {
+            carriedTags += (line.text.match(TAG_PATTERN) ?? []).join('');
+            continue;
+        }
+        kept.push({ ...line, text: carriedTags + line.text });
+        carriedTags = '';
+    }
+    if (kept.length === 0) return '';
+    kept[kept.length - 1].text += carriedTags;
+
+    const speakers = kept.filter(line => line.hadSpeaker).length;
+    return kept.map(line => {
+        if (speakers >= 2 && line.hadSpeaker && !DASH_START_PATTERN.test(line.text)) {
+            return line.text.replace(new RegExp(`^(${TAGS})`), '$1- ');
+        }
+        if (kept.length === 1 && originalDashes >= 2) {
+            return line.text.replace(DASH_START_PATTERN, '$1');
+        }
+        return line.text;
+    }).join('\n');
+};
+
+export interface SdhStripResult {
+    document: SubtitleDocument;
+    // Cues dropped because only annotations were left, or merged into the previous cue.
+    removed: number;
+    // Cues kept with some annotations removed.
+    changed: number;
+}
+
+const mergeRepeats = (cues: SubtitleCue[]): SubtitleCue[] =>
+    cues.reduce<SubtitleCue[]>((merged, cue) => {
+        const previous = merged[merged.length - 1];
+        const previousTiming = previous && parseCueTiming(previous.time);
+        const timing = parseCueTiming(cue.time);
+        if (previous && previousTiming && timing && previous.text === cue.text && timing.start - previousTiming.end <= MAX_MERGE_GAP_MS) {
+            merged[merged.length - 1] = { ...previous, time: formatCueTiming({ ...previousTiming, end: Math.max(previousTiming.end, timing.end) }) };
+            return merged;
+        }
+        merged.push(cue);
+        return merged;
+    }, []);
+
+/** Strips every cue, drops the empty ones, merges repeated neighbours and renumbers the rest. */
+export const stripSdhDocument = (document: SubtitleDocument): SdhStripResult => {
+    let changed = 0;
+    const stripped = document.cues.flatMap(cue => {
+        const text = stripSdh(cue.text);
+        if (text === '') return [];
+        if (text !== cue.text) changed++;
+        return [{ ...cue, text }];
+    });
+    const cues = mergeRepeats(stripped).map((cue, i) => ({ ...cue, index: String(i + 1) }));
+    return { document: { ...document, cues }, removed: document.cues.length - cues.length, changed };
+};
+
+/** The document a job with this SDH mode translates: stripped, or as it is. */
+export const applySdhMode = (document: SubtitleDocument, mode: SdhMode = 'translate'): SubtitleDocument =>
+    mode === 'strip' ? stripSdhDocument(document).document : document;
@@ -0,0 +1,13 @@
+export const trigrams = (text: string): Set<string> => {
+    const padded = ` ${text.toLowerCase()} `;
+    const grams = new Set<string>();
+    for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+    return grams;
+};
+
+// Dice coefficient over character trigrams: cheap, and forgiving of small edits and inflection.
+export const similarity = (a: Set<string>, b: Set<string>): number => {
+    let shared = 0;
+    a.forEach(gram => { if (b.has(gram)) shared++; });
+    return a.size + b.size === 0 ? 1 : (2 * shared) / (a.size + b.size);
+};
@@ -0,0 +1,117 @@
+import type { Audience, Formality, ProfanityPolicy, Register, StyleProfile } from "../types";
+import type { LanguageDefinition } from "./languages";
+
+export const DEFAULT_PROMPT_TEMPLATE = `You are an expert translator specializing in subtitles, translating from {{sourceLanguage}} into {{targetLanguage}}.
+- Preserve the tone, style, and context of the original dialogue.
+{{styleRules}}
+{{notes}}`;
+
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+    { name: 'sourceLanguage', description: 'Língua de origem (em inglês), ou indicação para a detetar' },
+    { name: 'targetLanguage', description: 'Língua de destino (em inglês)' },
+    { name: 'styleRules', description: 'Regras da língua e do perfil, uma por linha' },
+    { name: 'profileName', description: 'Nome do perfil' },
+    { name: 'notes', description: 'Notas livres do perfil' },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const FORMALITY_OPTIONS: { id: Formality; label: string }[] = [
+    { id: 'natural', label: 'Conforme a relação entre personagens' },
+    { id: 'informal', label: 'Informal (tu)' },
+    { id: 'formal', label: 'Formal (você / o senhor)' },
+];
+
+export const PROFANITY_OPTIONS: { id: ProfanityPolicy; label: string }[] = [
+    { id: 'soften', label: 'Suavizar' },
+    { id: 'faithful', label: 'Manter fiel ao original' },
+    { id: 'remove', label: 'Sem linguagem ofensiva' },
+];
+
+export const REGISTER_OPTIONS: { id: Register; label: string }[] = [
+    { id: 'natural', label: 'Igual ao original' },
+    { id: 'colloquial', label: 'Coloquial' },
+    { id: 'standard', label: 'Neutro' },
+    { id: 'literary', label: 'Cuidado / literário' },
+];
+
+export const AUDIENCE_OPTIONS: { id: Audience; label: string }[] = [
+    { id: 'general', label: 'Geral' },
+    { id: 'children', label: 'Infantil' },
+    { id: 'adult', label: 'Adulto' },
+];
+
+const REGISTER_RULES: Record<Register, string | null> = {
+    natural: null,
+    colloquial: 'Use a relaxed, colloquial register with the contractions and everyday expressions a native speaker would use.',
+    standard: 'Use a neutral, standard register; avoid slang and strongly regional expressions.',
+    literary: 'Use a careful, polished register suited to period or literary drama, while keeping lines speakable.',
+};
+
+const AUDIENCE_RULES: Record<Audience, string | null> = {
+    general: null,
+    children: 'The audience is children: use simple vocabulary and short sentences, and tone down anything crude, sexual or frightening that the story does not require.',
+    adult: 'The audience is adult: keep mature themes, innuendo and harsh language as strong as they are in the original.',
+};
+
+export const DEFAULT_STYLE_PROFILE: StyleProfile = {
+    id: 'default',
+    name: 'Padrão',
+    register: 'natural',
+    formality: 'natural',
+    profanity: 'soften',
+    audience: 'general',
+    notes: '',
+    promptTemplate: DEFAULT_PROMPT_TEMPLATE,
+};
+
+export const DEFAULT_STYLE_PROFILES: StyleProfile[] = [
+    DEFAULT_STYLE_PROFILE,
+    { ...DEFAULT_STYLE_PROFILE, id: 'children', name: 'Infantil', register: 'standard', profanity: 'remove', audience: 'children' },
+    { ...DEFAULT_STYLE_PROFILE, id: 'adult-drama', name: 'Drama adulto', profanity: 'faithful', audience: 'adult' },
+    { ...DEFAULT_STYLE_PROFILE, id: 'formal', name: 'Formal (você)', register: 'standard', formality: 'formal' },
+];
+
+const getProfanityRule = (policy: ProfanityPolicy, language: LanguageDefinition): string => {
+    switch (policy) {
+        case 'faithful':
+            return 'Translate cursing and swear words faithfully, with equivalents of the same strength; do not soften or censor them.';
+        case 'remove':
+            return 'Do not use any profanity, slurs or crude language: replace swear words with neutral expressions, or leave them out when the line still makes sense.';
+        case 'soften':
+        default:
+            return `When translating explicit cursing or swear words, prefer softer colloquial alternatives${language.softProfanity ? ` like ${language.softProfanity}` : ''} instead of direct, harsh translations.`;
+    }
+};
+
+/** The language's own rules followed by the profile's: address, register, profanity and audience. */
+export const getStyleRules = (profile: StyleProfile, language: LanguageDefinition): string[] => [
+    ...language.styleRules,
+    ...(language.addressRules ? [language.addressRules[profile.formality]] : []),
+    ...[REGISTER_RULES[profile.register]].filter((rule): rule is string => rule !== null),
+    getProfanityRule(profile.profanity, language),
+    ...[AUDIENCE_RULES[profile.audience]].filter((rule): rule is string => rule !== null),
+];
+
+/**
+ * Replaces {{name}} with its value; unknown variables are left as written. A line holding
+ * only variables that turned out empty (e.g. no notes) is dropped rather than left blank.
+ */
+export const renderPromptTemplate = (template: string, variables: Record<string, string>): string =>
+    template
+        .split('\n')
+        .flatMap(line => {
+            const rendered = line.replace(VARIABLE_PATTERN, (match, name: string) => name in variables ? variables[name] : match);
+            return rendered.trim() === '' && line.trim() !== '' ? [] : [rendered];
+        })
+        .join('\n');
+
+export const usesVariable = (template: string, name: string): boolean =>
+    Array.from(template.matchAll(VARIABLE_PATTERN)).some(match => match[1] === name);
+
+export const findUnknownVariables = (template: string): string[] => {
+    const known = new Set(PROMPT_VARIABLES.map(variable => variable.name));
+    return [...new Set(Array.from(template.matchAll(VARIABLE_PATTERN), match => match[1]))].filter(name => !known.has(name));
+};
+
+export const createStyleProfileId = (): string => `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
@@ -0,0 +1,159 @@
+import type { CueTiming, SubtitleBlock, TimingAnchor, TimingChange, TimingOperation } from "../types";
+import { formatCueTiming, parseCueTiming } from "./formats/time";
+import { getDisplayLength } from "./conformance";
+
+export interface FrameRate {
+    id: string;
+    label: string;
+    fps: number;
+}
+
+// NTSC rates are exact fractions; 23.976 and 29.97 are only their rounded names.
+export const FRAME_RATES: FrameRate[] = [
+    { id: '23.976', label: '23,976 fps (NTSC filme)', fps: 24000 / 1001 },
+    { id: '24', label: '24 fps (cinema)', fps: 24 },
+    { id: '25', label: '25 fps (PAL)', fps: 25 },
+    { id: '29.97', label: '29,97 fps (NTSC)', fps: 30000 / 1001 },
+    { id: '30', label: '30 fps', fps: 30 },
+];
+
+// A reference cue only counts as the same line when it covers at least this share of it.
+const MIN_REFERENCE_OVERLAP = 0.5;
+
+const overlap = (a: CueTiming, b: CueTiming): number => Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+const duration = ({ start, end }: CueTiming): number => Math.max(1, end - start);
+
+const withTiming = <T extends SubtitleBlock>(cue: T, timing: CueTiming): T => {
+    const time = formatCueTiming({ ...timing, start: Math.max(0, Math.round(timing.start)), end: Math.max(0, Math.round(timing.end)) });
+    return time === cue.time ? cue : { ...cue, time };
+};
+
+const isTimed = (timing: CueTiming | null): timing is CueTiming => timing !== null;
+
+/**
+ * Every cue's timing in milliseconds, or null where its `time` cannot be read. Operations
+ * parse the cue list once, work on these numbers and format the results at the end.
+ */
+export const parseCueTimings = (cues: SubtitleBlock[]): (CueTiming | null)[] =>
+    cues.map(cue => parseCueTiming(cue.time));
+
+// Cues without a timing are left untouched by every operation.
+const applyTimings = <T extends SubtitleBlock>(cues: T[], timings: (CueTiming | null)[]): T[] =>
+    cues.map((cue, i) => {
+        const timing = timings[i];
+        return timing ? withTiming(cue, timing) : cue;
+    });
+
+const mapTimings = (timings: (CueTiming | null)[], map: (ms: number) => number): (CueTiming | null)[] =>
+    timings.map(timing => timing && { ...timing, start: map(timing.start), end: map(timing.end) });
+
+const stretchTimings = (timings: (CueTiming | null)[], [first, second]: [TimingAnchor, TimingAnchor]): (CueTiming | null)[] => {
+    if (first.from === second.from) throw new Error('Os dois pontos de sincronização têm de ter tempos diferentes.');
+    const factor = (second.to - first.to) / (second.from - first.from);
+    if (factor <= 0) throw new Error('Os pontos de sincronização estão por ordem inversa.');
+    return mapTimings(timings, ms => first.to + (ms - first.from) * factor);
+};
+
+export const shiftCues = <T extends SubtitleBlock>(cues: T[], offsetMs: number): T[] =>
+    applyTimings(cues, mapTimings(parseCueTimings(cues), ms => ms + offsetMs));
+
+/** Linear correction through two points, for drift that grows over the file. */
+export const stretchCues = <T extends SubtitleBlock>(cues: T[], anchors: [TimingAnchor, TimingAnchor]): T[] =>
+    applyTimings(cues, stretchTimings(parseCueTimings(cues), anchors));
+
+/** Retimes cues made for a video at `fromFps` to the same video at `toFps` (e.g. 23,976 → 25 for PAL). */
+export const convertFrameRate = <T extends SubtitleBlock>(cues: T[], fromFps: number, toFps: number): T[] =>
+    applyTimings(cues, mapTimings(parseCueTimings(cues), ms => ms * fromFps / toFps));
+
+/**
+ * Copies the timings of a reference subtitle for the same video. The file is first stretched
+ * over the reference's span, then each cue takes the reference cues it overlaps, so cues need
+ * not match one for one: cues split where the reference has a single cue share its time by
+ * text length, and cues with no counterpart keep the stretched timing.
+ */
+export const alignToReference = <T extends SubtitleBlock>(cues: T[], reference: SubtitleBlock[]): T[] => {
+    const references = parseCueTimings(reference).filter(isTimed).sort((a, b) => a.start - b.start);
+    const timings = parseCueTimings(cues);
+    const parsed = timings.filter(isTimed);
+    if (references.length === 0 || parsed.length === 0) return cues;
+
+    const firstStart = Math.min(...parsed.map(timing => timing.start));
+    const lastEnd = Math.max(...parsed.map(timing => timing.end));
+    const referenceStart = references[0].start;
+    const referenceEnd = Math.max(...references.map(timing => timing.end));
+    const fitted = lastEnd > firstStart
+        ? stretchTimings(timings, [{ from: firstStart, to: referenceStart }, { from: lastEnd, to: referenceEnd }])
+        : mapTimings(timings, ms => ms + referenceStart - firstStart);
+
+    // The range of reference cues each cue corresponds to, or null when it has none.
+    const spans = fitted.map(timing => {
+        if (!timing) return null;
+        let first = -1;
+        let last = -1;
+        let best = -1;
+        let bestOverlap = 0;
+        references.forEach((candidate, j) => {
+            const shared = overlap(timing, candidate);
+            if (shared > bestOverlap) {
+                best = j;
+                bestOverlap = shared;
+            }
+            // Reference cues lying mostly inside this cue were merged into it.
+            if (shared >= duration(candidate) * MIN_REFERENCE_OVERLAP) {
+                first = first === -1 ? j : first;
+                last = j;
+            }
+        });
+        if (best !== -1 && bestOverlap >= duration(timing) * MIN_REFERENCE_OVERLAP) {
+            first = first === -1 ? best : Math.min(first, best);
+            last = Math.max(last, best);
+        }
+        return first === -1 ? null : { first, last };
+    });
+
+    const aligned = [...fitted];
+    for (let i = 0; i < fitted.length; i++) {
+        const span = spans[i];
+        if (!span) continue;
+        // Consecutive cues on the same reference span were split from one reference cue.
+        let runEnd = i;
+        while (runEnd + 1 < fitted.length && spans[runEnd + 1]?.first === span.first && spans[runEnd + 1]?.last === span.last) runEnd++;
+        const start = references[span.first].start;
+        const end = Math.max(...references.slice(span.first, span.last + 1).map(timing => timing.end));
+        const weights = cues.slice(i, runEnd + 1).map(cue => Math.max(1, getDisplayLength(cue.text)));
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        let cursor = start;
+        weights.forEach((weight, k) => {
+            const next = i + k === runEnd ? end : cursor + (end - start) * weight / total;
+            aligned[i + k] = { ...fitted[i + k]!, start: cursor, end: next };
+            cursor = next;
+        });
+        i = runEnd;
+    }
+
+    // Neighbouring spans can share a reference cue; trim the earlier cue rather than overlap.
+    return applyTimings(cues, aligned.map((timing, i) => {
+        const next = aligned[i + 1] ?? null;
+        return timing && next && next.start < timing.end && next.start > timing.start ? { ...timing, end: next.start } : timing;
+    }));
+};
+
+export const applyTimingOperation = <T extends SubtitleBlock>(cues: T[], operation: TimingOperation): T[] => {
+    switch (operation.kind) {
+        case 'shift': return shiftCues(cues, operation.offsetMs);
+        case 'stretch': return stretchCues(cues, operation.anchors);
+        case 'framerate': return convertFrameRate(cues, operation.fromFps, operation.toFps);
+        case 'reference': return alignToReference(cues, operation.cues);
+    }
+};
+
+/** The cues whose timing differs between two versions of the same cue list, for previewing. */
+export const diffTimings = (before: SubtitleBlock[], after: SubtitleBlock[]): TimingChange[] => {
+    const afterTimings = parseCueTimings(after);
+    return parseCueTimings(before).flatMap((previous, position) => {
+        const next = afterTimings[position] ?? null;
+        if (!previous || !next || (previous.start === next.start && previous.end === next.end)) return [];
+        return [{ position, before: previous, after: next }];
+    });
+};
@@ -0,0 +1,61 @@
+// Translation Memory eXchange (TMX 1.4), the format CAT tools use to share memories.
+
+export interface TmxUnit {
+    source: string;
+    target: string;
+    // Language tags as written in the file.
+    sourceLanguage: string;
+    targetLanguage: string;
+}
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const stringifyTmx = (units: TmxUnit[]): string => {
+    const body = units.map(unit => [
+        '    <tu>',
+        `      <tuv xml:lang="${escapeXml(unit.sourceLanguage)}"><seg>${escapeXml(unit.source)}</seg></tuv>`,
+        `      <tuv xml:lang="${escapeXml(unit.targetLanguage)}"><seg>${escapeXml(unit.target)}</seg></tuv>`,
+        '    </tu>',
+    ].join('\n'));
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<tmx version="1.4">',
+        '  <header creationtool="srt-subtitle-translator" creationtoolversion="1" segtype="sentence" o-tmf="srt-translator" adminlang="en" srclang="*all*" datatype="plaintext"/>',
+        '  <body>',
+        ...body,
+        '  </body>',
+        '</tmx>',
+        '',
+    ].join('\n');
+};
+
+/**
+ * Reads the translation units of a TMX file. Each unit yields one pair per target
+ * variant; the source variant is the one in the header's `srclang`, or the first.
+ * Inline markup elements (bpt, ept, ph...) are dropped, keeping their text.
+ */
+export const parseTmx = (content: string): TmxUnit[] => {
+    const xml = new DOMParser().parseFromString(content, 'application/xml');
+    if (xml.getElementsByTagName('parsererror').length > 0 || !xml.querySelector('tmx')) {
+        throw new Error('O ficheiro não é um TMX válido.');
+    }
+    const headerSource = xml.querySelector('header')?.getAttribute('srclang') ?? '*all*';
+    const units: TmxUnit[] = [];
+    xml.querySelectorAll('tu').forEach(tu => {
+        const variants = Array.from(tu.querySelectorAll('tuv')).map(tuv => ({
+            language: tuv.getAttribute('xml:lang') ?? tuv.getAttribute('lang') ?? '',
+            text: tuv.querySelector('seg')?.textContent ?? '',
+        })).filter(variant => variant.language !== '' && variant.text.trim() !== '');
+        const sourceLanguage = tu.getAttribute('srclang') ?? headerSource;
+        const source = variants.find(variant => variant.language.toLowerCase() === sourceLanguage.toLowerCase()) ?? variants[0];
+        if (!source) return;
+        variants.filter(variant => variant !== source).forEach(target => units.push({
+            source: source.text,
+            target: target.text,
+            sourceLanguage: source.language,
+            targetLanguage: target.language,
+        }));
+    });
+    return units;
+};
@@ -0,0 +1,80 @@
+import type { ModelPrice, TokenUsage, UsageKind, UsageOutcome, UsageRecord } from "../types";
+import { stringifyCsv } from "./csv";
+
+// List prices in US dollars per million tokens; they change, so they are editable in the app.
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+    { model: 'gemini-2.5-flash', inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    { model: 'gemini-2.5-flash-lite', inputPerMillion: 0.10, outputPerMillion: 0.40 },
+    { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10.00 },
+    { model: 'gemini-2.0-flash', inputPerMillion: 0.10, outputPerMillion: 0.40 },
+    { model: 'gpt-4o-mini', inputPerMillion: 0.15, outputPerMillion: 0.60 },
+    { model: 'gpt-4o', inputPerMillion: 2.50, outputPerMillion: 10.00 },
+    { model: 'gpt-4.1-mini', inputPerMillion: 0.40, outputPerMillion: 1.60 },
+    { model: 'mock', inputPerMillion: 0, outputPerMillion: 0 },
+];
+
+export const USAGE_KIND_LABELS: Record<UsageKind, string> = {
+    'translation': 'tradução',
+    'condense': 'condensação',
+    'back-translation': 'retrotradução',
+};
+
+export const USAGE_OUTCOME_LABELS: Record<UsageOutcome, string> = {
+    'ok': 'aceite',
+    'invalid': 'resposta inválida',
+    'failed': 'erro',
+    'rate-limited': 'limite de pedidos',
+};
+
+export interface UsageSummary extends TokenUsage {
+    requests: number;
+    // Requests after the first of each call.
+    retries: number;
+    // Requests that did not produce an accepted answer.
+    failures: number;
+}
+
+export const findModelPrice = (prices: ModelPrice[], model: string): ModelPrice | undefined =>
+    prices.find(price => price.model.trim().toLowerCase() === model.trim().toLowerCase());
+
+/** Cost in US dollars, or null when the model has no price. */
+export const getUsageCost = (usage: TokenUsage, price: ModelPrice | undefined): number | null =>
+    price ? (usage.promptTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000 : null;
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => records.reduce<UsageSummary>((summary, record) => ({
+    requests: summary.requests + 1,
+    retries: summary.retries + (record.request > 1 ? 1 : 0),
+    failures: summary.failures + (record.outcome === 'ok' ? 0 : 1),
+    promptTokens: summary.promptTokens + record.promptTokens,
+    outputTokens: summary.outputTokens + record.outputTokens,
+    estimated: summary.estimated || record.estimated === true,
+}), { requests: 0, retries: 0, failures: 0, promptTokens: 0, outputTokens: 0, estimated: false });
+
+/** Sum of the records' costs, each at its own model's price; null if any of them has no price. */
+export const getRecordsCost = (records: UsageRecord[], prices: ModelPrice[]): number | null =>
+    records.reduce<number | null>((total, record) => {
+        const cost = getUsageCost(record, findModelPrice(prices, record.model));
+        return total === null || cost === null ? null : total + cost;
+    }, 0);
+
+/** One row per request, oldest first, with its cost at the current prices. */
+export const stringifyUsageLog = (records: UsageRecord[], prices: ModelPrice[]): string => stringifyCsv([
+    ['timestamp', 'file', 'chunk', 'kind', 'provider', 'model', 'request', 'outcome', 'prompt_tokens', 'output_tokens', 'estimated', 'cost_usd'],
+    ...[...records].sort((a, b) => a.timestamp - b.timestamp).map(record => {
+        const cost = getUsageCost(record, findModelPrice(prices, record.model));
+        return [
+            new Date(record.timestamp).toISOString(),
+            record.fileName ?? '',
+            record.chunkIndex !== undefined ? String(record.chunkIndex + 1) : '',
+            record.kind,
+            record.providerId,
+            record.model,
+            String(record.request),
+            record.outcome,
+            String(record.promptTokens),
+            String(record.outputTokens),
+            record.estimated ? 'yes' : 'no',
+            cost === null ? '' : cost.toFixed(6),
+        ];
+    }),
+]);
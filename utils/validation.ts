@@ -0,0 +1,94 @@
+import type { SubtitleCue, SubtitleDiagnostic, SubtitleDocument, SubtitleFix } from "../types";
+import { formatCueTiming, parseCueTiming, parseTimeRange } from "./formats/time";
+
+// Used when a cue ends before it starts and there is no following cue to bound it.
+const DEFAULT_REPAIRED_DURATION_MS = 2000;
+
+const withRange = (cue: SubtitleCue, start: number, end: number): SubtitleCue =>
+    ({ ...cue, time: formatCueTiming({ ...parseCueTiming(cue.time), start, end }) });
+
+/**
+ * Checks numbering, timings and text of parsed cues. Each diagnostic carries the
+ * source line (when the parser recorded it) so the user can find it in the file.
+ */
+export const validateSubtitles = (document: SubtitleDocument): SubtitleDiagnostic[] => {
+    const diagnostics: SubtitleDiagnostic[] = [];
+    let previousEnd: number | null = null;
+    let previousIndex: number | null = null;
+
+    document.cues.forEach((cue, cuePosition) => {
+        const line = cue.sourceLine;
+
+        if (document.format === 'srt') {
+            const index = parseInt(cue.index, 10);
+            if (previousIndex !== null && index !== previousIndex + 1) {
+                diagnostics.push({ code: 'out-of-order-index', severity: 'warning', line, cuePosition, message: `Número de legenda ${cue.index} fora de ordem (esperado ${previousIndex + 1}).` });
+            }
+            previousIndex = index;
+        }
+
+        if (cue.text.trim() === '') {
+            diagnostics.push({ code: 'empty-text', severity: 'warning', line, cuePosition, message: `Legenda ${cue.index} sem texto.` });
+        }
+
+        const range = parseTimeRange(cue.time);
+        if (!range) {
+            // Parsed files never get here; documents built or stored elsewhere can.
+            diagnostics.push({ code: 'invalid-timing', severity: 'error', line, cuePosition, message: `Legenda ${cue.index} tem um tempo ilegível ("${cue.time}").` });
+            return;
+        }
+        if (range.end < range.start) {
+            diagnostics.push({ code: 'negative-duration', severity: 'error', line, cuePosition, message: `Legenda ${cue.index} termina antes de começar.` });
+        } else if (range.end === range.start) {
+            diagnostics.push({ code: 'zero-duration', severity: 'warning', line, cuePosition, message: `Legenda ${cue.index} tem duração zero.` });
+        }
+        if (previousEnd !== null && range.start < previousEnd) {
+            diagnostics.push({ code: 'overlap', severity: 'warning', line, cuePosition, message: `Legenda ${cue.index} sobrepõe-se à anterior em ${previousEnd - range.start} ms.` });
+        }
+        previousEnd = Math.max(range.end, previousEnd ?? 0);
+    });
+
+    return diagnostics;
+};
+
+/** Returns the fixes that would change something for the given diagnostics. */
+export const getApplicableFixes = (diagnostics: SubtitleDiagnostic[]): SubtitleFix[] => {
+    const codes = new Set(diagnostics.map(diagnostic => diagnostic.code));
+    const fixes: SubtitleFix[] = [];
+    if (codes.has('out-of-order-index') || codes.has('missing-index')) fixes.push('renumber');
+    if (codes.has('negative-duration') || codes.has('zero-duration') || codes.has('overlap')) fixes.push('fix-timings');
+    if (codes.has('empty-text')) fixes.push('remove-empty');
+    return fixes;
+};
+
+export const applyFixes = (document: SubtitleDocument, fixes: SubtitleFix[]): SubtitleDocument => {
+    let cues = document.cues;
+
+    if (fixes.includes('remove-empty')) {
+        cues = cues.filter(cue => cue.text.trim() !== '');
+    }
+
+    if (fixes.includes('fix-timings')) {
+        const ranges = cues.map(cue => parseTimeRange(cue.time));
+        cues = cues.map((cue, i) => {
+            const range = ranges[i];
+            if (!range) return cue;
+            const nextStart = ranges.slice(i + 1).find(Boolean)?.start;
+            let { start, end } = range;
+            if (end <= start) {
+                end = start + DEFAULT_REPAIRED_DURATION_MS;
+            }
+            // Trim into the next cue rather than moving it, so later timings stay untouched.
+            if (nextStart !== undefined && end > nextStart && nextStart > start) {
+                end = nextStart;
+            }
+            return start === range.start && end === range.end ? cue : withRange(cue, start, end);
+        });
+    }
+
+    if (fixes.includes('renumber')) {
+        cues = cues.map((cue, i) => ({ ...cue, index: String(i + 1) }));
+    }
+
+    return { ...document, cues };
+};
@@ -0,0 +1,98 @@
+import { createZip } from "./zip";
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Style indices in STYLES: 0 default, 1 bold header, 2 wrapped text aligned to the top.
+const HEADER_STYLE = 1;
+const WRAPPED_STYLE = 2;
+
+const STYLES = `<styleSheet xmlns="${MAIN_NS}">`
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+    + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>'
+    + '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment wrapText="1" vertical="top"/></xf></cellXfs>'
+    + '</styleSheet>';
+
+export interface SpreadsheetColumn {
+    header: string;
+    // Width in characters.
+    width: number;
+}
+
+// XML 1.0 forbids most control characters, even escaped.
+const escapeXml = (value: string): string =>
+    value
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+// 0 → A, 25 → Z, 26 → AA.
+const getColumnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + (n - 1) % 26) + name;
+    }
+    return name;
+};
+
+const buildCell = (value: string, reference: string, style: number): string =>
+    `<c r="${reference}" t="inlineStr" s="${style}"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+
+const buildSheet = (columns: SpreadsheetColumn[], rows: string[][]): string => {
+    const cols = columns.map((column, i) => `<col min="${i + 1}" max="${i + 1}" width="${column.width}" customWidth="1"/>`).join('');
+    const allRows = [columns.map(column => column.header), ...rows];
+    const sheetRows = allRows.map((row, r) => {
+        const style = r === 0 ? HEADER_STYLE : WRAPPED_STYLE;
+        const cells = row.map((value, c) => buildCell(value, `${getColumnName(c)}${r + 1}`, style)).join('');
+        return `<row r="${r + 1}">${cells}</row>`;
+    }).join('');
+    // The header row stays visible while scrolling.
+    const view = '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>';
+    return `<worksheet xmlns="${MAIN_NS}">${view}<cols>${cols}</cols><sheetData>${sheetRows}</sheetData></worksheet>`;
+};
+
+/**
+ * Writes a single-sheet .xlsx workbook with a bold, frozen header row and wrapped text
+ * cells. Every value is stored as text, so timings and cue numbers are shown as written.
+ */
+export const createXlsx = (columns: SpreadsheetColumn[], rows: string[][], sheetName = 'Sheet1'): Uint8Array =>
+    createZip([
+        {
+            name: '[Content_Types].xml',
+            content: XML_DECLARATION + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+                + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+                + '<Default Extension="xml" ContentType="application/xml"/>'
+                + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+                + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+                + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+                + '</Types>',
+        },
+        {
+            name: '_rels/.rels',
+            content: XML_DECLARATION + `<Relationships xmlns="${RELATIONSHIPS_NS}">`
+                + `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/officeDocument" Target="xl/workbook.xml"/>`
+                + '</Relationships>',
+        },
+        {
+            name: 'xl/workbook.xml',
+            content: XML_DECLARATION + `<workbook xmlns="${MAIN_NS}" xmlns:r="${DOCUMENT_RELATIONSHIP}">`
+                + `<sheets><sheet name="${escapeXml(sheetName.replace(/[[\]:*?/\\]/g, '').slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+        },
+        {
+            name: 'xl/_rels/workbook.xml.rels',
+            content: XML_DECLARATION + `<Relationships xmlns="${RELATIONSHIPS_NS}">`
+                + `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIP}/worksheet" Target="worksheets/sheet1.xml"/>`
+                + `<Relationship Id="rId2" Type="${DOCUMENT_RELATIONSHIP}/styles" Target="styles.xml"/>`
+                + '</Relationships>',
+        },
+        { name: 'xl/styles.xml', content: XML_DECLARATION + STYLES },
+        { name: 'xl/worksheets/sheet1.xml', content: XML_DECLARATION + buildSheet(columns, rows) },
+    ]);
@@ -0,0 +1,37 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { detectFormat } from "./formats";
+
+export interface TextFile {
+    name: string;
+    content: string;
+}
+
+export const isZipFile = (filename: string): boolean => /\.zip$/i.test(filename);
+
+const getBaseName = (path: string): string => path.split('/').pop() ?? path;
+
+/**
+ * Extracts the subtitle files from a ZIP archive. Folders are flattened and
+ * anything that is not a supported subtitle (macOS resource forks, NFOs, videos) is skipped.
+ */
+export const readSubtitleZip = (data: Uint8Array): TextFile[] => {
+    const entries = unzipSync(data, {
+        filter: (entry) => !entry.name.startsWith('__MACOSX/') && !getBaseName(entry.name).startsWith('.') && detectFormat(entry.name) !== null,
+    });
+    return Object.entries(entries)
+        .map(([path, bytes]) => ({ name: getBaseName(path), content: strFromU8(bytes) }))
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
+
+/** Packs text files into a ZIP archive, appending a counter to repeated names. */
+export const createZip = (files: TextFile[]): Uint8Array => {
+    const entries: Record<string, Uint8Array> = {};
+    files.forEach(file => {
+        let name = file.name;
+        for (let i = 2; name in entries; i++) {
+            name = file.name.replace(/(\.[^.]+)?$/, ` (${i})$1`);
+        }
+        entries[name] = strToU8(file.content);
+    });
+    return zipSync(entries);
+};
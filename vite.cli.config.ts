@@ -0,0 +1,23 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Node build of the headless core and the translate-srt CLI. Unlike vite.config.ts it does
+// not inline API keys: the CLI reads them from the environment at run time.
+export default defineConfig({
+    build: {
+        ssr: true,
+        target: 'node20',
+        outDir: 'dist-node',
+        emptyOutDir: true,
+        rollupOptions: {
+            input: {
+                core: path.resolve(__dirname, 'core/index.ts'),
+                'translate-srt': path.resolve(__dirname, 'cli/translate-srt.ts'),
+            },
+            output: {
+                entryFileNames: '[name].js',
+                banner: (chunk) => chunk.name === 'translate-srt' ? '#!/usr/bin/env node' : '',
+            },
+        },
+    },
+});